@@ -0,0 +1,356 @@
+/**
+ * Extraction of plugin archives (.zip, .tar.gz, .tgz)
+ */
+
+import { createHash, randomUUID } from "node:crypto";
+import { existsSync } from "node:fs";
+import { chmod, mkdir, readdir, readFile, rm, stat, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { basename, dirname, join } from "node:path";
+import { gunzipSync, inflateRawSync } from "node:zlib";
+import { formatBytes } from "./format";
+
+export interface ExtractResult {
+  tempDir: string; // temp extraction location
+  pluginPath: string; // actual plugin directory (single top-level folder if present)
+  checksum: string; // sha256 of the archive file
+}
+
+export interface ExtractOptions {
+  maxEntries?: number; // default MAX_ARCHIVE_ENTRIES
+  maxSize?: number; // uncompressed bytes, default MAX_ARCHIVE_SIZE
+}
+
+interface ArchiveLimits {
+  maxEntries: number;
+  maxSize: number;
+}
+
+interface ArchiveEntry {
+  path: string;
+  type: "file" | "directory";
+  data?: Buffer;
+  mode?: number; // unix permission bits, if the archive records them
+}
+
+const ARCHIVE_EXTENSIONS = [".zip", ".tar.gz", ".tgz"];
+
+// Plugins are small; anything beyond these limits is rejected before it fills the disk
+export const MAX_ARCHIVE_ENTRIES = 10_000;
+export const MAX_ARCHIVE_SIZE = 100 * 1024 * 1024;
+
+// Entries created by archivers that are never part of the plugin
+const IGNORED_TOP_LEVEL = new Set(["__MACOSX"]);
+
+/**
+ * Checks if a path refers to a supported archive by extension
+ */
+export function isArchivePath(path: string): boolean {
+  const lower = path.toLowerCase();
+  return ARCHIVE_EXTENSIONS.some((extension) => lower.endsWith(extension));
+}
+
+/**
+ * Returns the archive file name without its archive extension.
+ * Example: "/dl/my-plugin.tar.gz" -> "my-plugin"
+ */
+export function getArchiveBaseName(path: string): string {
+  const name = basename(path);
+  const extension = ARCHIVE_EXTENSIONS.find((ext) => name.toLowerCase().endsWith(ext));
+  return extension ? name.slice(0, -extension.length) : name;
+}
+
+/**
+ * Extracts an archive to a temporary directory.
+ *
+ * Files are extracted into `<temp>/<archive-name>/` so the plugin name can be
+ * derived from the archive when it has no single top-level folder. All entries are
+ * read and checked before anything is written; nothing is left behind on failure.
+ *
+ * @param archivePath - Absolute path to the archive
+ * @returns Extract result with temp directory, plugin path and checksum
+ * @throws Error if the archive is invalid, contains unsafe entries or exceeds the limits
+ */
+export async function extractToTemp(
+  archivePath: string,
+  options: ExtractOptions = {},
+): Promise<ExtractResult> {
+  if (!existsSync(archivePath)) {
+    throw new Error(`Archive not found: ${archivePath}`);
+  }
+
+  const limits: ArchiveLimits = {
+    maxEntries: options.maxEntries ?? MAX_ARCHIVE_ENTRIES,
+    maxSize: options.maxSize ?? MAX_ARCHIVE_SIZE,
+  };
+  const content = await readFile(archivePath);
+  const checksum = createHash("sha256").update(content).digest("hex");
+  const entries = archivePath.toLowerCase().endsWith(".zip")
+    ? readZipEntries(content, limits)
+    : readTarEntries(gunzip(content, limits), limits);
+
+  // Validate every path first, so an unsafe entry can't leave a partial extraction
+  const files = entries
+    .map((entry) => ({ ...entry, path: toSafeRelativePath(entry.path) }))
+    // Skip the archive root itself (e.g. "./" written by `tar -C dir .`)
+    .filter((entry) => entry.path);
+
+  const tempDir = join(tmpdir(), `opencode-archive-${randomUUID()}`);
+  const extractDir = join(tempDir, getArchiveBaseName(archivePath));
+
+  try {
+    await mkdir(extractDir, { recursive: true });
+
+    for (const entry of files) {
+      const targetPath = join(extractDir, entry.path);
+
+      if (entry.type === "directory") {
+        await mkdir(targetPath, { recursive: true });
+      } else {
+        await mkdir(dirname(targetPath), { recursive: true });
+        await writeFile(targetPath, entry.data ?? Buffer.alloc(0));
+        // Keep executables (e.g. skill scripts) executable, like a directory install does
+        await chmod(targetPath, getFileMode(entry.mode));
+      }
+    }
+
+    return { tempDir, pluginPath: await findPluginRoot(extractDir), checksum };
+  } catch (error) {
+    await rm(tempDir, { recursive: true, force: true });
+    throw error;
+  }
+}
+
+/**
+ * Validates an archive entry path and returns it relative to the extraction root.
+ * Returns an empty string for the archive root.
+ *
+ * @throws Error for absolute paths or entries escaping the extraction root
+ */
+function toSafeRelativePath(entryPath: string): string {
+  const segments = entryPath.split(/[\\/]/).filter((segment) => segment && segment !== ".");
+
+  if (/^([\\/]|[a-zA-Z]:)/.test(entryPath) || segments.includes("..")) {
+    throw new Error(`Unsafe path in archive: ${entryPath}`);
+  }
+
+  return segments.join("/");
+}
+
+/**
+ * Returns the single top-level folder of the extracted archive, or the root itself.
+ */
+async function findPluginRoot(extractDir: string): Promise<string> {
+  const entries = (await readdir(extractDir)).filter((entry) => !IGNORED_TOP_LEVEL.has(entry));
+
+  if (entries.length === 1) {
+    const candidate = join(extractDir, entries[0]);
+    if ((await stat(candidate)).isDirectory()) {
+      return candidate;
+    }
+  }
+
+  return extractDir;
+}
+
+/**
+ * Reads entries of an uncompressed tar stream (ustar, pax and GNU long names).
+ * Links and special files are skipped.
+ */
+function readTarEntries(buffer: Buffer, limits: ArchiveLimits): ArchiveEntry[] {
+  const entries: ArchiveEntry[] = [];
+  let offset = 0;
+  let longName: string | null = null;
+
+  while (offset + 512 <= buffer.length) {
+    const header = buffer.subarray(offset, offset + 512);
+
+    // Two zero blocks mark the end of the archive
+    if (header.every((byte) => byte === 0)) {
+      break;
+    }
+
+    const name = readString(header, 0, 100);
+    const mode = Number.parseInt(readString(header, 100, 8).trim() || "0", 8);
+    const size = Number.parseInt(readString(header, 124, 12).trim() || "0", 8);
+    const typeFlag = String.fromCharCode(header[156] || 48);
+    const prefix = readString(header, 345, 155);
+    const dataStart = offset + 512;
+    const data = buffer.subarray(dataStart, dataStart + size);
+
+    if (Number.isNaN(size) || dataStart + size > buffer.length) {
+      throw new Error("Invalid tar archive: truncated entry");
+    }
+
+    offset = dataStart + Math.ceil(size / 512) * 512;
+
+    if (typeFlag === "L") {
+      longName = readString(data, 0, data.length);
+      continue;
+    }
+
+    if (typeFlag === "x") {
+      longName = parsePaxPath(data.toString("utf-8")) ?? longName;
+      continue;
+    }
+
+    const path = longName ?? (prefix ? `${prefix}/${name}` : name);
+    longName = null;
+
+    if (typeFlag === "0" || typeFlag === "7" || typeFlag === "5") {
+      checkEntryCount(entries.length + 1, limits);
+    }
+
+    if (typeFlag === "0" || typeFlag === "7") {
+      entries.push({ path, type: "file", data: Buffer.from(data), mode });
+    } else if (typeFlag === "5") {
+      entries.push({ path, type: "directory" });
+    }
+  }
+
+  return entries;
+}
+
+function parsePaxPath(records: string): string | null {
+  for (const record of records.split("\n")) {
+    const match = record.match(/^\d+ path=(.*)$/);
+    if (match) {
+      return match[1];
+    }
+  }
+  return null;
+}
+
+function readString(buffer: Buffer, start: number, length: number): string {
+  const slice = buffer.subarray(start, start + length);
+  const end = slice.indexOf(0);
+  return slice.subarray(0, end === -1 ? slice.length : end).toString("utf-8");
+}
+
+/**
+ * Reads entries of a zip archive via its central directory.
+ * Supports stored and deflated entries; symlinks are skipped.
+ */
+function readZipEntries(buffer: Buffer, limits: ArchiveLimits): ArchiveEntry[] {
+  const endOffset = findEndOfCentralDirectory(buffer);
+  const entryCount = buffer.readUInt16LE(endOffset + 10);
+  let offset = buffer.readUInt32LE(endOffset + 16);
+
+  if (entryCount === 0xffff || offset === 0xffffffff) {
+    throw new Error("Unsupported zip archive: ZIP64 is not supported");
+  }
+
+  checkEntryCount(entryCount, limits);
+
+  const entries: ArchiveEntry[] = [];
+  let totalSize = 0;
+
+  for (let i = 0; i < entryCount; i++) {
+    if (buffer.readUInt32LE(offset) !== 0x02014b50) {
+      throw new Error("Invalid zip archive: corrupt central directory");
+    }
+
+    const madeBy = buffer.readUInt16LE(offset + 4) >> 8; // host system, 3 = unix
+    const method = buffer.readUInt16LE(offset + 10);
+    const compressedSize = buffer.readUInt32LE(offset + 20);
+    const nameLength = buffer.readUInt16LE(offset + 28);
+    const extraLength = buffer.readUInt16LE(offset + 30);
+    const commentLength = buffer.readUInt16LE(offset + 32);
+    const externalAttributes = buffer.readUInt32LE(offset + 38);
+    const localOffset = buffer.readUInt32LE(offset + 42);
+    const path = buffer.subarray(offset + 46, offset + 46 + nameLength).toString("utf-8");
+
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    // Unix file type lives in the high 16 bits of the external attributes
+    const unixMode = externalAttributes >>> 16;
+    if ((unixMode & 0o170000) === 0o120000) {
+      continue;
+    }
+
+    if (path.endsWith("/")) {
+      entries.push({ path, type: "directory" });
+      continue;
+    }
+
+    const localNameLength = buffer.readUInt16LE(localOffset + 26);
+    const localExtraLength = buffer.readUInt16LE(localOffset + 28);
+    const dataStart = localOffset + 30 + localNameLength + localExtraLength;
+    const compressed = buffer.subarray(dataStart, dataStart + compressedSize);
+
+    // Sizes in the headers can't be trusted, so inflating stops at the remaining budget
+    const maxOutputLength = Math.max(limits.maxSize - totalSize, 1);
+    let data: Buffer;
+    if (method === 0) {
+      data = Buffer.from(compressed);
+    } else if (method === 8) {
+      data = decompress(() => inflateRawSync(compressed, { maxOutputLength }), limits);
+    } else {
+      throw new Error(`Unsupported zip compression method ${method} for ${path}`);
+    }
+
+    totalSize += data.length;
+    if (totalSize > limits.maxSize) {
+      throw new Error(getSizeLimitMessage(limits));
+    }
+
+    entries.push({ path, type: "file", data, mode: madeBy === 3 ? unixMode & 0o777 : undefined });
+  }
+
+  return entries;
+}
+
+/**
+ * Decompresses a gzipped tar stream; its size bounds the size of the extracted files.
+ */
+function gunzip(content: Buffer, limits: ArchiveLimits): Buffer {
+  return decompress(() => gunzipSync(content, { maxOutputLength: limits.maxSize }), limits);
+}
+
+/**
+ * Runs a zlib call limited by maxOutputLength, reporting an exceeded limit as such.
+ */
+function decompress(inflate: () => Buffer, limits: ArchiveLimits): Buffer {
+  try {
+    return inflate();
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ERR_BUFFER_TOO_LARGE") {
+      throw new Error(getSizeLimitMessage(limits));
+    }
+    throw error;
+  }
+}
+
+/**
+ * Returns the mode of an extracted file: executable if any execute bit is set, else 0o644.
+ */
+function getFileMode(mode?: number): number {
+  return mode !== undefined && !Number.isNaN(mode) && mode & 0o111 ? 0o755 : 0o644;
+}
+
+function checkEntryCount(count: number, limits: ArchiveLimits): void {
+  if (count > limits.maxEntries) {
+    throw new Error(`Archive has too many entries (more than ${limits.maxEntries})`);
+  }
+}
+
+function getSizeLimitMessage(limits: ArchiveLimits): string {
+  return `Archive is too large: extracted files exceed ${formatBytes(limits.maxSize)}`;
+}
+
+function findEndOfCentralDirectory(buffer: Buffer): number {
+  if (buffer.length < 22) {
+    throw new Error("Invalid zip archive: file too small");
+  }
+
+  // The record is 22 bytes plus a comment of up to 65535 bytes
+  const minOffset = Math.max(0, buffer.length - 22 - 0xffff);
+
+  for (let offset = buffer.length - 22; offset >= minOffset; offset--) {
+    if (buffer.readUInt32LE(offset) === 0x06054b50) {
+      return offset;
+    }
+  }
+
+  throw new Error("Invalid zip archive: end of central directory not found");
+}
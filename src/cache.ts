@@ -0,0 +1,150 @@
+/**
+ * Persistent cache of bare repository mirrors shared by install, scan, update and import
+ */
+
+import { createHash } from "node:crypto";
+import { existsSync } from "node:fs";
+import { mkdir, readdir, readFile, rm, stat, writeFile } from "node:fs/promises";
+import { homedir } from "node:os";
+import { join } from "node:path";
+import { getGitRepoName } from "./git-url";
+
+export interface CachedRepo {
+  url: string;
+  path: string; // bare mirror location
+  size: number; // bytes on disk
+  lastFetched?: string; // ISO 8601 timestamp
+}
+
+interface CacheMetadata {
+  url: string;
+  lastFetched: string;
+}
+
+/**
+ * Returns the cache directory: $XDG_CACHE_HOME/opencode-marketplace or ~/.cache/opencode-marketplace
+ */
+export function getCacheDir(): string {
+  const base = process.env.XDG_CACHE_HOME || join(homedir(), ".cache");
+  return join(base, "opencode-marketplace");
+}
+
+function getReposDir(): string {
+  return join(getCacheDir(), "repos");
+}
+
+function getCacheKey(url: string): string {
+  const digest = createHash("sha256").update(url).digest("hex").substring(0, 12);
+  const name = getGitRepoName(url).replace(/[^a-zA-Z0-9._-]/g, "_") || "repo";
+  return `${name}-${digest}`;
+}
+
+/**
+ * Returns the bare mirror path for a repository URL.
+ */
+export function getMirrorPath(url: string): string {
+  return join(getReposDir(), `${getCacheKey(url)}.git`);
+}
+
+function getMetadataPath(url: string): string {
+  return join(getReposDir(), `${getCacheKey(url)}.json`);
+}
+
+/**
+ * Records that the mirror for a repository URL was just fetched.
+ */
+export async function recordFetch(url: string): Promise<void> {
+  const metadata: CacheMetadata = { url, lastFetched: new Date().toISOString() };
+  await mkdir(getReposDir(), { recursive: true });
+  await writeFile(getMetadataPath(url), JSON.stringify(metadata, null, 2), "utf-8");
+}
+
+/**
+ * Returns when the mirror for a repository URL was last fetched, if known.
+ */
+export async function getLastFetched(url: string): Promise<string | undefined> {
+  try {
+    const metadata: CacheMetadata = JSON.parse(await readFile(getMetadataPath(url), "utf-8"));
+    return metadata.lastFetched;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Lists all cached repository mirrors.
+ */
+export async function listCachedRepos(): Promise<CachedRepo[]> {
+  const reposDir = getReposDir();
+
+  if (!existsSync(reposDir)) {
+    return [];
+  }
+
+  const repos: CachedRepo[] = [];
+
+  for (const entry of await readdir(reposDir)) {
+    if (!entry.endsWith(".json")) {
+      continue;
+    }
+
+    try {
+      const metadata: CacheMetadata = JSON.parse(await readFile(join(reposDir, entry), "utf-8"));
+      const path = getMirrorPath(metadata.url);
+
+      if (!existsSync(path)) {
+        continue;
+      }
+
+      repos.push({
+        url: metadata.url,
+        path,
+        size: await getDirectorySize(path),
+        lastFetched: metadata.lastFetched,
+      });
+    } catch {
+      // Ignore unreadable metadata - the entry will be recreated on next fetch
+    }
+  }
+
+  return repos.sort((a, b) => a.url.localeCompare(b.url));
+}
+
+/**
+ * Removes cached mirrors. If a filter is given, only repositories whose URL
+ * contains it are removed.
+ *
+ * @returns The removed repositories
+ */
+export async function removeCachedRepos(filter?: string): Promise<CachedRepo[]> {
+  const repos = await listCachedRepos();
+  const toRemove = filter ? repos.filter((repo) => repo.url.includes(filter)) : repos;
+
+  for (const repo of toRemove) {
+    await rm(repo.path, { recursive: true, force: true });
+    await rm(getMetadataPath(repo.url), { force: true });
+  }
+
+  // Without a filter, also drop leftovers (interrupted clones, orphaned metadata)
+  if (!filter) {
+    await rm(getReposDir(), { recursive: true, force: true });
+  }
+
+  return toRemove;
+}
+
+async function getDirectorySize(dirPath: string): Promise<number> {
+  let size = 0;
+
+  for (const entry of await readdir(dirPath, { withFileTypes: true })) {
+    const entryPath = join(dirPath, entry.name);
+
+    if (entry.isDirectory()) {
+      size += await getDirectorySize(entryPath);
+    } else if (entry.isFile()) {
+      size += (await stat(entryPath)).size;
+    }
+  }
+
+  return size;
+}
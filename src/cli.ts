@@ -1,18 +1,32 @@
 import { cac } from "cac";
 import { version } from "../package.json";
-import { importPlugins } from "./commands/import";
+import { cacheClean, cacheList } from "./commands/cache";
+import { exportPlugins } from "./commands/export";
+import { DEFAULT_CONCURRENCY, importPlugins } from "./commands/import";
 import { install } from "./commands/install";
 import { list } from "./commands/list";
+import {
+  marketplaceAdd,
+  marketplaceList,
+  marketplaceRefresh,
+  marketplaceRemove,
+} from "./commands/marketplace";
+import { outdated } from "./commands/outdated";
+import { registryRepair } from "./commands/registry";
 import { scan } from "./commands/scan";
+import { search } from "./commands/search";
 import { uninstall } from "./commands/uninstall";
 import { update } from "./commands/update";
 import { setAgentsOverride } from "./config";
 
-export function run(argv = process.argv) {
+export async function run(argv = process.argv) {
   const cli = cac("opencode-marketplace");
 
   cli
-    .command("install <path>", "Install a plugin from a local directory or GitHub URL")
+    .command(
+      "install <path>",
+      "Install a plugin from a local directory, archive, GitHub URL, git URL, or plugin@marketplace",
+    )
     .option("--scope <scope>", "Installation scope (user/project)", { default: "user" })
     .option(
       "--target-dir <dir>",
@@ -20,6 +34,16 @@ export function run(argv = process.argv) {
     )
     .option("--force", "Overwrite existing components", { default: false })
     .option("-i, --interactive", "Interactively select components to install", { default: false })
+    .option("--all", "Install every plugin of a multi-plugin repository", { default: false })
+    .option("--plugin <name>", "Install only this plugin of a multi-plugin repository (repeatable)")
+    .option(
+      "--include <pattern>",
+      "Only install matching components, e.g. command:review* (repeatable)",
+    )
+    .option("--exclude <pattern>", "Skip matching components, e.g. skill:* (repeatable)")
+    .option("--offline", "Use only previously fetched repositories from the clone cache", {
+      default: false,
+    })
     .option("--agents", "Install skills to ~/.agents/skills/ (overrides config)")
     .action(async (path, options) => {
       if (options.scope !== "user" && options.scope !== "project") {
@@ -44,10 +68,39 @@ export function run(argv = process.argv) {
 
   cli
     .command("import [config-path]", "Install plugins from import config file")
+    .option("--scope <scope>", "Default scope for entries without one (user/project)")
     .option("--target-dir <dir>", "Custom installation directory (overrides ~/.config/opencode)")
     .option("--force", "Overwrite existing components", { default: false })
+    .option("--frozen", "Install exactly what the lockfile records; fail on any mismatch", {
+      default: false,
+    })
+    .option("--prune", "Uninstall plugins of the targeted scope that the config doesn't list", {
+      default: false,
+    })
+    .option(
+      "--dry-run",
+      "Show what would be installed, updated or pruned without changing anything",
+      {
+        default: false,
+      },
+    )
+    .option("--offline", "Use only previously fetched repositories from the clone cache", {
+      default: false,
+    })
+    .option("--concurrency <n>", "Number of plugins to fetch and install in parallel", {
+      default: DEFAULT_CONCURRENCY,
+    })
     .option("--agents", "Install skills to ~/.agents/skills/ (overrides config)")
     .action((configPath, options) => {
+      if (options.scope && options.scope !== "user" && options.scope !== "project") {
+        console.error(`Invalid scope: ${options.scope}. Must be 'user' or 'project'.`);
+        process.exit(1);
+      }
+      if (!Number.isInteger(Number(options.concurrency)) || Number(options.concurrency) < 1) {
+        console.error(`Invalid concurrency: ${options.concurrency}. Must be a positive integer.`);
+        process.exit(1);
+      }
+      options.concurrency = Number(options.concurrency);
       if (options.agents) {
         setAgentsOverride();
       }
@@ -57,6 +110,10 @@ export function run(argv = process.argv) {
   cli
     .command("uninstall <name>", "Uninstall a plugin")
     .option("--scope <scope>", "Installation scope (user/project)", { default: "user" })
+    .option(
+      "--target-dir <dir>",
+      "Custom installation directory (overrides default scope directory)",
+    )
     .option("--agents", "Install skills to ~/.agents/skills/ (overrides config)")
     .action((name, options) => {
       if (options.scope !== "user" && options.scope !== "project") {
@@ -72,6 +129,10 @@ export function run(argv = process.argv) {
   cli
     .command("list", "List installed plugins")
     .option("--scope <scope>", "Filter by scope (user/project)")
+    .option(
+      "--target-dir <dir>",
+      "Custom installation directory (overrides default scope directory)",
+    )
     .action((options) => {
       if (options.scope && options.scope !== "user" && options.scope !== "project") {
         console.error(`Invalid scope: ${options.scope}. Must be 'user' or 'project'.`);
@@ -81,17 +142,42 @@ export function run(argv = process.argv) {
     });
 
   cli
-    .command("scan <path>", "Scan a local directory or GitHub URL for plugin components (dry-run)")
+    .command(
+      "scan <path>",
+      "Scan a local directory, GitHub URL, or git URL for plugin components (dry-run)",
+    )
+    .option("--plugin <name>", "Only scan this plugin of a multi-plugin repository (repeatable)")
+    .option(
+      "--include <pattern>",
+      "Only show matching components, e.g. command:review* (repeatable)",
+    )
+    .option("--exclude <pattern>", "Skip matching components, e.g. skill:* (repeatable)")
+    .option("--offline", "Use only previously fetched repositories from the clone cache", {
+      default: false,
+    })
     .action((path, options) => {
       return scan(path, options);
     });
 
   cli
-    .command("update <name>", "Update a plugin from its remote source")
-    .option("--scope <scope>", "Installation scope (user/project)", { default: "user" })
+    .command("update [name]", "Update a plugin from its remote or local source")
+    .option(
+      "--scope <scope>",
+      "Installation scope (user/project; default: user, or both with --all)",
+    )
+    .option("--all", "Update every installed plugin", { default: false })
+    .option(
+      "--include <pattern>",
+      "Only install matching components; replaces the remembered filter",
+    )
+    .option("--exclude <pattern>", "Skip matching components; replaces the remembered filter")
+    .option(
+      "--target-dir <dir>",
+      "Custom installation directory (overrides default scope directory)",
+    )
     .option("--agents", "Install skills to ~/.agents/skills/ (overrides config)")
     .action((name, options) => {
-      if (options.scope !== "user" && options.scope !== "project") {
+      if (options.scope && options.scope !== "user" && options.scope !== "project") {
         console.error(`Invalid scope: ${options.scope}. Must be 'user' or 'project'.`);
         process.exit(1);
       }
@@ -101,6 +187,120 @@ export function run(argv = process.argv) {
       return update(name, options);
     });
 
+  cli
+    .command("outdated", "Check remote plugins for upstream changes without installing")
+    .option("--scope <scope>", "Only check this scope (user/project)")
+    .option(
+      "--target-dir <dir>",
+      "Custom installation directory (overrides default scope directory)",
+    )
+    .option("--offline", "Use only previously fetched repositories from the clone cache", {
+      default: false,
+    })
+    .action((options) => {
+      if (options.scope && options.scope !== "user" && options.scope !== "project") {
+        console.error(`Invalid scope: ${options.scope}. Must be 'user' or 'project'.`);
+        process.exit(1);
+      }
+      return outdated(options);
+    });
+
+  cli
+    .command("export [output-path]", "Write an import config that reinstalls the installed plugins")
+    .option("--scope <scope>", "Only export this scope (user/project; default: both)")
+    .option(
+      "--target-dir <dir>",
+      "Custom installation directory (overrides default scope directory)",
+    )
+    .option("--force", "Overwrite an existing output file", { default: false })
+    .action((outputPath, options) => {
+      if (options.scope && options.scope !== "user" && options.scope !== "project") {
+        console.error(`Invalid scope: ${options.scope}. Must be 'user' or 'project'.`);
+        process.exit(1);
+      }
+      return exportPlugins(outputPath, options);
+    });
+
+  cli
+    .command("registry <action>", "Maintain the plugin registry (repair)")
+    .option("--scope <scope>", "Registry scope (user/project)", { default: "user" })
+    .option(
+      "--target-dir <dir>",
+      "Custom installation directory (overrides default scope directory)",
+    )
+    .option("--dry-run", "Show what would be repaired without changing anything", {
+      default: false,
+    })
+    .option("--agents", "Scan skills in ~/.agents/skills/ (overrides config)")
+    .action((action, options) => {
+      if (options.scope !== "user" && options.scope !== "project") {
+        console.error(`Invalid scope: ${options.scope}. Must be 'user' or 'project'.`);
+        process.exit(1);
+      }
+      if (options.agents) {
+        setAgentsOverride();
+      }
+      if (action === "repair") {
+        return registryRepair(options);
+      }
+      console.error(`Invalid registry action: ${action}. Must be 'repair'.`);
+      process.exit(1);
+    });
+
+  cli
+    .command("cache <action> [filter]", "Manage the repository clone cache (ls, clean)")
+    .action((action, filter, options) => {
+      if (action === "ls") {
+        return cacheList(options);
+      }
+      if (action === "clean") {
+        return cacheClean(filter, options);
+      }
+      console.error(`Invalid cache action: ${action}. Must be 'ls' or 'clean'.`);
+      process.exit(1);
+    });
+
+  cli
+    .command(
+      "marketplace <action> [arg]",
+      "Manage marketplace catalogs (add <source>, remove <name>, list, refresh [name])",
+    )
+    .option("--name <name>", "Register the catalog under this name (add)")
+    .option("--offline", "Use only previously fetched repositories from the clone cache", {
+      default: false,
+    })
+    .action((action, arg, options) => {
+      if (action === "list") {
+        return marketplaceList(options);
+      }
+      if (action === "refresh") {
+        return marketplaceRefresh(arg, options);
+      }
+      if ((action === "add" || action === "remove") && !arg) {
+        console.error(
+          `Missing argument: marketplace ${action} <${action === "add" ? "source" : "name"}>`,
+        );
+        process.exit(1);
+      }
+      if (action === "add") {
+        return marketplaceAdd(arg, options);
+      }
+      if (action === "remove") {
+        return marketplaceRemove(arg);
+      }
+      console.error(
+        `Invalid marketplace action: ${action}. Must be 'add', 'remove', 'list', or 'refresh'.`,
+      );
+      process.exit(1);
+    });
+
+  cli
+    .command("search <query>", "Search added marketplace catalogs for plugins")
+    .option("--json", "Print results as JSON", { default: false })
+    .action((query, options) => {
+      return search(query, options);
+    });
+
   // Global options
   cli.option("--verbose", "Enable verbose logging");
 
@@ -115,13 +315,15 @@ export function run(argv = process.argv) {
   }
 
   try {
-    cli.parse(argv);
+    // Run the action here so failures of async commands (e.g. an invalid registry) are reported too
+    cli.parse(argv, { run: false });
+    await cli.runMatchedCommand();
   } catch (error) {
     if (error instanceof Error && error.message.includes("missing required args")) {
       console.error(error.message);
       cli.outputHelp();
     } else {
-      console.error(error instanceof Error ? error.message : String(error));
+      console.error(`\nError: ${error instanceof Error ? error.message : String(error)}`);
     }
     process.exit(1);
   }
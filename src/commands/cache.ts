@@ -0,0 +1,55 @@
+import { getCacheDir, listCachedRepos, removeCachedRepos } from "../cache";
+import { formatBytes } from "../format";
+
+export interface CacheOptions {
+  verbose?: boolean;
+}
+
+/**
+ * Lists cached repository mirrors with their size and last fetch time.
+ */
+export async function cacheList(options: CacheOptions) {
+  const repos = await listCachedRepos();
+
+  if (repos.length === 0) {
+    console.log(`Cache is empty (${getCacheDir()}).`);
+    return;
+  }
+
+  const totalSize = repos.reduce((sum, repo) => sum + repo.size, 0);
+  console.log(
+    `Cache: ${getCacheDir()} (${repos.length} repositor${repos.length === 1 ? "y" : "ies"}, ${formatBytes(totalSize)})`,
+  );
+
+  for (const repo of repos) {
+    console.log(`  ${repo.url}`);
+    console.log(`    Size: ${formatBytes(repo.size)}, fetched ${repo.lastFetched ?? "unknown"}`);
+
+    if (options.verbose) {
+      console.log(`    Path: ${repo.path}`);
+    }
+  }
+}
+
+/**
+ * Removes cached repository mirrors, optionally only those matching a URL filter.
+ */
+export async function cacheClean(filter: string | undefined, options: CacheOptions) {
+  const removed = await removeCachedRepos(filter);
+
+  if (options.verbose) {
+    for (const repo of removed) {
+      console.log(`[VERBOSE] Removed ${repo.path}`);
+    }
+  }
+
+  if (removed.length === 0) {
+    console.log(filter ? `No cached repositories match "${filter}".` : "Cache is already empty.");
+    return;
+  }
+
+  const totalSize = removed.reduce((sum, repo) => sum + repo.size, 0);
+  console.log(
+    `Removed ${removed.length} cached repositor${removed.length === 1 ? "y" : "ies"} (${formatBytes(totalSize)}).`,
+  );
+}
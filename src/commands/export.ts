@@ -0,0 +1,135 @@
+import { existsSync } from "node:fs";
+import { resolve } from "node:path";
+import { formatImportConfig, saveImportConfig } from "../import-config";
+import { loadRegistry } from "../registry";
+import { inferPluginName, resolveRemotePluginName } from "../resolution";
+import { formatPluginSource } from "../source";
+import type { ImportConfig, ImportConfigEntry, InstalledPlugin, Scope } from "../types";
+
+export interface ExportOptions {
+  scope?: Scope; // export only this registry; both by default
+  targetDir?: string;
+  force?: boolean; // overwrite an existing output file
+  verbose?: boolean;
+}
+
+export async function exportPlugins(outputPath: string | undefined, options: ExportOptions) {
+  try {
+    const config = await createImportConfig(options);
+
+    if (config.plugins.length === 0) {
+      const scopeText = options.scope ? `${options.scope} scope` : "any scope";
+      console.error(`No plugins installed in ${scopeText}.`);
+      return;
+    }
+
+    // Without a file the config goes to stdout, so it can be piped or redirected
+    if (!outputPath) {
+      console.log(formatImportConfig(config).trimEnd());
+      return;
+    }
+
+    if (existsSync(outputPath) && !options.force) {
+      throw new Error(`${outputPath} already exists. Use --force to overwrite it.`);
+    }
+
+    await saveImportConfig(config, outputPath);
+
+    console.log(`Exported ${config.plugins.length} plugin(s) to ${resolve(outputPath)}.`);
+    console.log(`Run 'opencode-marketplace import ${outputPath}' to install them elsewhere.`);
+  } catch (error) {
+    console.error(`\nError: ${error instanceof Error ? error.message : String(error)}`);
+    process.exit(1);
+  }
+}
+
+/**
+ * Builds an import config that reinstalls the plugins of one or both registries.
+ * With a single scope it becomes the config's default; otherwise project plugins name
+ * their scope.
+ */
+export async function createImportConfig(options: ExportOptions): Promise<ImportConfig> {
+  const scopes: Scope[] = options.scope ? [options.scope] : ["user", "project"];
+  const plugins: ImportConfigEntry[] = [];
+
+  for (const scope of scopes) {
+    const registry = await loadRegistry(scope, options.targetDir);
+    const sorted = Object.values(registry.plugins).sort((a, b) => a.name.localeCompare(b.name));
+
+    for (const plugin of sorted) {
+      if (plugin.source.type === "unknown") {
+        console.warn(`Warning: Skipping ${plugin.name} (${scope}): its source is unknown.`);
+        continue;
+      }
+
+      const entry = await createImportEntry(plugin, scope, options);
+
+      if (options.verbose) {
+        console.error(`[VERBOSE] ${plugin.name} (${scope}) -> ${entry.source}`);
+      }
+
+      plugins.push(entry);
+    }
+  }
+
+  return options.scope === "project" ? { scope: "project", plugins } : { plugins };
+}
+
+/**
+ * Creates the config entry of an installed plugin. Remote sources keep their ref;
+ * a component selection from `install -i` is written as include patterns.
+ */
+async function createImportEntry(
+  plugin: InstalledPlugin,
+  scope: Scope,
+  options: ExportOptions,
+): Promise<ImportConfigEntry> {
+  const entry: ImportConfigEntry = { source: formatPluginSource(plugin.source) };
+
+  if (scope !== (options.scope ?? "user")) {
+    entry.scope = scope;
+  }
+
+  if (plugin.selection) {
+    entry.include = [...plugin.selection.included];
+  } else if (plugin.filter) {
+    if (plugin.filter.include) {
+      entry.include = [...plugin.filter.include];
+    }
+    if (plugin.filter.exclude) {
+      entry.exclude = [...plugin.filter.exclude];
+    }
+  }
+
+  if ((await getDefaultName(plugin)) !== plugin.name) {
+    entry.name = plugin.name;
+  }
+
+  // Plugins in the exported directory itself are installed wherever the import targets
+  const exportedDir = options.targetDir ? resolve(options.targetDir) : undefined;
+  if (plugin.targetDir && plugin.targetDir !== exportedDir) {
+    entry.targetDir = plugin.targetDir;
+  }
+
+  return entry;
+}
+
+/**
+ * Returns the name an install from the plugin's source infers, or null if that
+ * can't be told without fetching it (archives, invalid names).
+ */
+async function getDefaultName(plugin: InstalledPlugin): Promise<string | null> {
+  try {
+    switch (plugin.source.type) {
+      case "local":
+        return await inferPluginName(plugin.source.path);
+      case "archive":
+      case "unknown":
+        return null;
+      default:
+        return resolveRemotePluginName(formatPluginSource(plugin.source));
+    }
+  } catch {
+    return null;
+  }
+}
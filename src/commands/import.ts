@@ -1,63 +1,200 @@
+import { createHash } from "node:crypto";
+import { existsSync } from "node:fs";
+import { runConcurrently } from "../concurrency";
 import { getDefaultImportConfigPath, loadImportConfig } from "../import-config";
-import { install } from "./install";
+import {
+  getImportLockKey,
+  getImportLockPath,
+  loadImportLock,
+  saveImportLock,
+} from "../import-lock";
+import { loadRegistry } from "../registry";
+import type { ImportLock, ImportLockEntry, Scope } from "../types";
+import { type InstallResult, install } from "./install";
+import { uninstallPlugin } from "./uninstall";
 
 export interface ImportOptions {
+  scope?: Scope; // default scope for entries without one; overrides the config's default
   targetDir?: string;
   force: boolean;
+  frozen?: boolean;
+  offline?: boolean;
+  prune?: boolean; // uninstall plugins of the targeted registries that the config doesn't list
+  dryRun?: boolean; // show what would change without installing or removing anything
+  concurrency?: number; // entries fetched and installed in parallel
   verbose?: boolean;
 }
 
+export const DEFAULT_CONCURRENCY = 4;
+
+// A registry targeted by the import, with the plugins the config keeps in it
+interface PruneTarget {
+  scope: Scope;
+  targetDir?: string;
+  keep: Set<string>;
+}
+
 export async function importPlugins(configPath: string | undefined, options: ImportOptions) {
-  const { targetDir, force, verbose } = options;
+  const { targetDir, force, frozen, offline, prune, dryRun, verbose } = options;
+  const concurrency = options.concurrency ?? DEFAULT_CONCURRENCY;
   const actualConfigPath = configPath || getDefaultImportConfigPath();
+  const lockPath = getImportLockPath(actualConfigPath);
 
   try {
-    console.log(`Importing plugins from ${actualConfigPath}...\n`);
+    console.log(
+      `${dryRun ? "Previewing import" : "Importing plugins"} from ${actualConfigPath}...\n`,
+    );
 
     const config = await loadImportConfig(actualConfigPath);
 
-    if (config.plugins.length === 0) {
+    if (config.plugins.length === 0 && !prune) {
       console.log("No plugins found in configuration.");
       return;
     }
 
+    if (frozen && !existsSync(lockPath)) {
+      throw new Error(`Lockfile not found: ${lockPath}. Run 'import' without --frozen first.`);
+    }
+
+    const lock = await loadImportLock(lockPath);
+    const nextLock: ImportLock = { version: 1, plugins: {} };
+
+    if (verbose && existsSync(lockPath)) {
+      console.log(`[VERBOSE] Using lockfile ${lockPath}`);
+    }
+
     const results = {
       installed: 0,
       updated: 0,
       skipped: 0,
       failed: 0,
+      removed: 0,
     };
 
-    for (let i = 0; i < config.plugins.length; i++) {
-      const source = config.plugins[i];
-      const displayNum = `[${i + 1}/${config.plugins.length}]`;
+    const pruneTargets = new Map<string, PruneTarget>();
+    const getPruneTarget = (scope: Scope, targetDirOption?: string): PruneTarget => {
+      // The project registry always lives in the working directory
+      const dir = scope === "user" ? targetDirOption : undefined;
+      const key = `${scope}:${dir ?? ""}`;
+      let target = pruneTargets.get(key);
+      if (!target) {
+        target = { scope, targetDir: dir, keep: new Set() };
+        pruneTargets.set(key, target);
+      }
+      return target;
+    };
 
-      console.log(`${displayNum} ${source}`);
+    const defaultScope = options.scope ?? config.scope ?? "user";
+    const scopeCounts = new Map<Scope, number>();
 
-      try {
-        const result = await install(source, {
-          scope: "user",
-          force,
-          verbose,
-          skipIfSameHash: true,
-          targetDir,
-        });
-
-        if (result.status === "installed") results.installed++;
-        else if (result.status === "updated") results.updated++;
-        else if (result.status === "skipped") results.skipped++;
-      } catch (error) {
-        results.failed++;
-        console.error(`  Error: ${error instanceof Error ? error.message : String(error)}`);
+    for (const entry of config.plugins) {
+      const scope = entry.scope ?? defaultScope;
+      scopeCounts.set(scope, (scopeCounts.get(scope) ?? 0) + 1);
+    }
+
+    // Besides the registries entries install into, only a scope picked explicitly is pruned
+    const explicitScope = options.scope ?? config.scope;
+    if (explicitScope) {
+      getPruneTarget(explicitScope, targetDir);
+    }
+
+    // Fetching runs in parallel; each entry's output is printed as one block, in config order
+    const entryLocks = await runConcurrently(
+      config.plugins.map((entry, i) => async (): Promise<ImportLockEntry | undefined> => {
+        const displayNum = `[${i + 1}/${config.plugins.length}]`;
+        const lockKey = getImportLockKey(entry, actualConfigPath);
+        const locked = lock.plugins[lockKey];
+        const scope = entry.scope ?? defaultScope;
+
+        console.log(
+          `${displayNum} ${entry.source} (${scope}${entry.name ? `, as ${entry.name}` : ""})`,
+        );
+
+        try {
+          if (frozen && !locked) {
+            throw new Error(`${lockKey} is not in the lockfile`);
+          }
+
+          const result = await install(entry.source, {
+            scope,
+            force,
+            verbose,
+            skipIfSameHash: true,
+            targetDir: entry.targetDir ?? targetDir,
+            plugin: entry.plugin,
+            all: entry.all,
+            nonInteractive: true,
+            include: entry.include,
+            exclude: entry.exclude,
+            name: entry.name,
+            dryRun,
+            offline,
+            commit: locked?.commit,
+            expectedHashes: frozen && locked ? getLockedHashes(locked) : undefined,
+          });
+
+          const pruneTarget = getPruneTarget(scope, entry.targetDir ?? targetDir);
+          for (const name of getInstalledNames(result)) {
+            pruneTarget.keep.add(name);
+          }
+
+          if (result.status === "installed") results.installed++;
+          else if (result.status === "updated") results.updated++;
+          else if (result.status === "skipped") results.skipped++;
+
+          return createLockEntry(result);
+        } catch (error) {
+          results.failed++;
+          console.error(`  Error: ${error instanceof Error ? error.message : String(error)}`);
+
+          // Keep the previous resolution so a transient failure doesn't drop the entry
+          return locked;
+        } finally {
+          console.log(""); // Empty line between plugins
+        }
+      }),
+      concurrency,
+    );
+
+    for (let i = 0; i < config.plugins.length; i++) {
+      const entryLock = entryLocks[i];
+      if (entryLock) {
+        nextLock.plugins[getImportLockKey(config.plugins[i], actualConfigPath)] = entryLock;
+      }
+    }
+
+    if (prune) {
+      if (results.failed > 0) {
+        console.warn(
+          `Warning: Not pruning because ${results.failed} plugin(s) failed to import; their names are unknown.\n`,
+        );
+      } else {
+        const pruned = await prunePlugins([...pruneTargets.values()], options);
+        results.removed = pruned.removed;
+        results.failed += pruned.failed;
       }
-      console.log(""); // Empty line between plugins
     }
 
-    console.log("Import complete:");
+    if (!frozen && !dryRun) {
+      await saveImportLock(nextLock, lockPath);
+    }
+
+    console.log(dryRun ? "Dry run complete (nothing was changed):" : "Import complete:");
     console.log(`  Installed: ${results.installed}`);
     console.log(`  Updated:   ${results.updated}`);
     console.log(`  Skipped:   ${results.skipped}`);
     console.log(`  Failed:    ${results.failed}`);
+    if (prune) {
+      console.log(`  Removed:   ${results.removed}`);
+    }
+    if (scopeCounts.size > 0) {
+      const scopes = [...scopeCounts].map(([scope, count]) => `${scope} (${count})`);
+      console.log(`  Scopes:    ${scopes.join(", ")}`);
+    }
+
+    if (!frozen && !dryRun) {
+      console.log(`\nLockfile written to ${lockPath}`);
+    }
 
     if (results.failed > 0) {
       process.exit(1);
@@ -67,3 +204,96 @@ export async function importPlugins(configPath: string | undefined, options: Imp
     process.exit(1);
   }
 }
+
+/**
+ * Uninstalls the plugins of each targeted registry that the config doesn't keep.
+ * Counts plugins that were (or, in a dry run, would be) removed and those that failed to.
+ */
+async function prunePlugins(
+  targets: PruneTarget[],
+  options: ImportOptions,
+): Promise<{ removed: number; failed: number }> {
+  let removed = 0;
+  let failed = 0;
+
+  for (const { scope, targetDir, keep } of targets) {
+    const registry = await loadRegistry(scope, targetDir);
+    const stale = Object.keys(registry.plugins)
+      .filter((name) => !keep.has(name))
+      .sort();
+
+    if (stale.length === 0) {
+      continue;
+    }
+
+    const location = targetDir || `${scope} scope`;
+    console.log(`Pruning ${stale.length} plugin(s) not in the config from ${location}:`);
+
+    for (const name of stale) {
+      if (options.dryRun) {
+        console.log(`  Would uninstall ${name}`);
+        removed++;
+        continue;
+      }
+
+      try {
+        await uninstallPlugin(name, { scope, targetDir, verbose: options.verbose });
+        removed++;
+      } catch (error) {
+        failed++;
+        console.error(`  Error: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+    console.log("");
+  }
+
+  return { removed, failed };
+}
+
+/**
+ * Returns the lock entry for an install result, or undefined if nothing was resolved.
+ * A multi-plugin source records each plugin's hash and a hash over all of them.
+ */
+function createLockEntry(result: InstallResult): ImportLockEntry | undefined {
+  const commit = result.commit ? { commit: result.commit } : {};
+
+  if (!result.plugins) {
+    return result.hash ? { name: result.pluginName, hash: result.hash, ...commit } : undefined;
+  }
+
+  const plugins: Record<string, string> = {};
+  for (const plugin of result.plugins) {
+    if (plugin.hash) {
+      plugins[plugin.pluginName] = plugin.hash;
+    }
+  }
+
+  const names = Object.keys(plugins).sort();
+  if (names.length === 0) {
+    return undefined;
+  }
+
+  const hash = createHash("sha256");
+  for (const name of names) {
+    hash.update(`${name}:${plugins[name]}\n`);
+  }
+
+  return { name: names.join(", "), hash: hash.digest("hex"), ...commit, plugins };
+}
+
+/**
+ * Returns the content hash of each plugin a lock entry records, by plugin name.
+ */
+function getLockedHashes(locked: ImportLockEntry): Record<string, string> {
+  return locked.plugins ?? { [locked.name]: locked.hash };
+}
+
+/**
+ * Returns the names of the plugins an install result covers (several for multi-plugin sources).
+ */
+function getInstalledNames(result: InstallResult): string[] {
+  if (result.plugins) {
+    return result.plugins.map((plugin) => plugin.pluginName);
+  }
+  return result.pluginName ? [result.pluginName] : [];
+}
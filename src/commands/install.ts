@@ -1,14 +1,43 @@
 import { existsSync } from "node:fs";
-import { copyFile, cp, mkdir } from "node:fs/promises";
-import { basename, dirname, resolve } from "node:path";
+import { readdir, readFile, stat } from "node:fs/promises";
+import { basename, join, resolve } from "node:path";
+import { extractToTemp, isArchivePath } from "../archive";
 import { discoverComponents } from "../discovery";
-import { formatComponentCount } from "../format";
+import { formatComponentCount, formatHash } from "../format";
 import { cleanup, cloneToTemp } from "../git";
-import { isGitHubUrl, parseGitHubUrl } from "../github";
-import { ensureComponentDirsExist, getComponentTargetPath } from "../paths";
-import { getInstalledPlugin, loadRegistry, saveRegistry } from "../registry";
-import { computePluginHash, inferPluginName } from "../resolution";
+import { resolveMarketplacePlugin } from "../marketplace";
+import { ensureComponentDirsExist, getComponentDir, getComponentTargetPath } from "../paths";
+import { getInstalledPlugin, loadRegistry, saveRegistry, withRegistryLock } from "../registry";
+import {
+  computePluginHash,
+  inferPluginName,
+  type NestedPlugin,
+  resolveNestedPlugins,
+} from "../resolution";
+import {
+  applyComponentFilter,
+  applySelection,
+  createComponentFilter,
+  createSelection,
+  formatComponentFilter,
+} from "../selection";
+import {
+  formatPluginSource,
+  isRemotePluginSource,
+  isRemoteSource,
+  parseMarketplaceReference,
+  parseRemoteSource,
+} from "../source";
+import {
+  applyTransaction,
+  commitTransaction,
+  createTransaction,
+  removeFile,
+  rollbackTransaction,
+  stageFile,
+} from "../transaction";
 import type {
+  ComponentFilter,
   ComponentType,
   DiscoveredComponent,
   InstalledPlugin,
@@ -23,8 +52,20 @@ export interface InstallOptions {
   interactive?: boolean;
   skipIfSameHash?: boolean;
   targetDir?: string;
+  offline?: boolean; // resolve remote sources from the clone cache only
+  commit?: string; // pin remote sources to this commit instead of the ref head
+  expectedHashes?: Record<string, string>; // abort unless each plugin's content has this hash
+  all?: boolean; // install every plugin of a multi-plugin source
+  plugin?: string | string[]; // install only these plugins of a multi-plugin source
+  nonInteractive?: boolean; // never prompt for the plugins of a multi-plugin source
+  include?: string | string[]; // component patterns to install, e.g. "command:review*"
+  exclude?: string | string[]; // component patterns to skip, e.g. "skill:*"
+  name?: string; // install under this name instead of the inferred one
+  dryRun?: boolean; // fetch and resolve the plugin, but don't change any files
 }
 
+type ComponentChange = "added" | "changed" | "unchanged";
+
 interface ConflictInfo {
   component: DiscoveredComponent;
   targetPath: string;
@@ -34,44 +75,68 @@ interface ConflictInfo {
 export interface InstallResult {
   status: "installed" | "updated" | "skipped";
   pluginName: string;
+  hash?: string;
+  commit?: string;
+  plugins?: InstallResult[]; // one per plugin when the source holds several plugins
 }
 
-export async function install(path: string, options: InstallOptions): Promise<InstallResult> {
-  const { scope, force, verbose, interactive, skipIfSameHash, targetDir } = options;
+export async function install(source: string, options: InstallOptions): Promise<InstallResult> {
+  const { verbose, offline, commit } = options;
 
   let tempDir: string | null = null;
 
   let pluginSource: PluginSource;
 
+  // Reject malformed --include/--exclude patterns before fetching anything
+  createComponentFilter(options.include, options.exclude);
+
   try {
-    // Step 1: Detect if path is a GitHub URL or local path
+    // Step 0: Resolve <plugin>@<marketplace> references through the catalog
+    const path = await resolveMarketplaceSource(source, { verbose, offline });
+
+    // Step 1: Detect if path is a remote URL or local path
     let pluginPath: string;
 
-    if (isGitHubUrl(path)) {
+    if (isRemoteSource(path)) {
       // Remote installation
-      const parsed = parseGitHubUrl(path);
-      if (!parsed) {
-        throw new Error(`Invalid GitHub URL: ${path}`);
+      const remote = parseRemoteSource(path);
+      if (!remote) {
+        throw new Error(`Invalid remote URL: ${path}`);
       }
 
       if (verbose) {
-        console.log(
-          `[VERBOSE] Cloning from GitHub: ${parsed.owner}/${parsed.repo}${parsed.ref ? `@${parsed.ref}` : ""}`,
-        );
+        console.log(`[VERBOSE] Cloning from ${remote.label}${remote.ref ? `@${remote.ref}` : ""}`);
       }
 
-      // Clone repository - use base URL without /tree/ path
-      const repoUrl = `https://github.com/${parsed.owner}/${parsed.repo}.git`;
-      const cloneResult = await cloneToTemp(repoUrl, parsed.ref, parsed.subpath);
+      const cloneResult = await cloneToTemp(remote.cloneUrl, commit ?? remote.ref, remote.subpath, {
+        offline,
+      });
       tempDir = cloneResult.tempDir;
 
       // Plugin path from clone result
       pluginPath = cloneResult.pluginPath;
 
+      pluginSource = { ...remote.source, commit: cloneResult.commit };
+
+      if (verbose) {
+        console.log(`[VERBOSE] Resolved commit: ${cloneResult.commit}`);
+      }
+    } else if (isArchivePath(path)) {
+      // Archive installation
+      const archivePath = resolve(path);
+
+      if (verbose) {
+        console.log(`[VERBOSE] Extracting archive ${archivePath}`);
+      }
+
+      const extractResult = await extractToTemp(archivePath);
+      tempDir = extractResult.tempDir;
+      pluginPath = extractResult.pluginPath;
+
       pluginSource = {
-        type: "remote",
-        url: path,
-        ref: parsed.ref,
+        type: "archive",
+        path: archivePath,
+        checksum: extractResult.checksum,
       };
     } else {
       // Local installation
@@ -86,46 +151,108 @@ export async function install(path: string, options: InstallOptions): Promise<In
       };
     }
 
-    // Step 2: Resolve plugin identity using unified logic
-    const pluginName = await inferPluginName(
+    // Step 1.5: Repositories holding several plugins install each as its own entry
+    const nestedPlugins = await resolveNestedPlugins(pluginPath, pluginSource);
+
+    if (nestedPlugins.length > 0) {
+      return await installNestedPlugins(path, nestedPlugins, options);
+    }
+
+    // --plugin must name the plugin a single-plugin source holds
+    if (options.plugin) {
+      const name = await inferPluginName(
+        pluginPath,
+        isRemotePluginSource(pluginSource) ? formatPluginSource(pluginSource) : undefined,
+      );
+      await selectNestedPlugins(path, [name], options);
+    }
+
+    return await installPlugin(pluginPath, pluginSource, path, options);
+  } finally {
+    // Cleanup temp directory of remote and archive installations
+    if (tempDir) {
+      await cleanup(tempDir);
+    }
+  }
+}
+
+/**
+ * Installs a single fetched plugin directory (steps 2-10 of install).
+ */
+async function installPlugin(
+  pluginPath: string,
+  pluginSource: PluginSource,
+  path: string,
+  options: InstallOptions,
+): Promise<InstallResult> {
+  const { scope, force, verbose, interactive, skipIfSameHash, expectedHashes } = options;
+  // --target-dir replaces ~/.config/opencode; project paths ignore it
+  const targetDir = scope === "user" ? options.targetDir : undefined;
+
+  // Step 2: Resolve plugin identity using unified logic
+  const pluginName =
+    options.name ??
+    (await inferPluginName(
       pluginPath,
-      pluginSource.type === "remote" ? path : undefined,
+      isRemotePluginSource(pluginSource) ? formatPluginSource(pluginSource) : undefined,
+    ));
+
+  if (verbose) {
+    console.log(`[VERBOSE] Resolved plugin name: ${pluginName}`);
+  }
+
+  // Step 3: Discover components
+  const components = await discoverComponents(pluginPath, pluginName);
+  if (components.length === 0) {
+    throw new Error(
+      `No components found in ${path}. Ensure plugin contains command/, agent/, or skill/ directories with valid components.`,
     );
+  }
 
-    if (verbose) {
-      console.log(`[VERBOSE] Resolved plugin name: ${pluginName}`);
+  // From here on the registry is read and written; parallel installs take turns,
+  // so each one sees the entries the others saved
+  return withRegistryLock(async () => {
+    // Step 3.2: Apply include/exclude filters - given, or remembered from the previous install
+    const existingPlugin = await getInstalledPlugin(pluginName, scope, targetDir);
+    const newFilter = createComponentFilter(options.include, options.exclude);
+    const filter = newFilter ?? existingPlugin?.filter;
+    const matchingComponents = filter ? applyComponentFilter(components, filter) : components;
+
+    if (filter && !newFilter) {
+      console.log(
+        `Reusing filter ${formatComponentFilter(filter)} from the previous install; pass --include/--exclude to change it.`,
+      );
     }
 
-    // Step 3: Discover components
-    const components = await discoverComponents(pluginPath, pluginName);
-    if (components.length === 0) {
+    if (matchingComponents.length === 0) {
       throw new Error(
-        `No components found in ${path}. Ensure plugin contains command/, agent/, or skill/ directories with valid components.`,
+        `No components of ${pluginName} match the filter (${formatComponentFilter(filter ?? {})}).`,
+      );
+    }
+
+    if (verbose && filter) {
+      console.log(
+        `[VERBOSE] Filter ${formatComponentFilter(filter)} matches ${matchingComponents.length} of ${components.length} component(s)`,
       );
     }
 
-    // Step 3.5: Interactive selection (if enabled)
-    let componentsToInstall = components;
+    // Step 3.5: Select components - interactively, or as remembered from the previous install
+    let componentsToInstall = matchingComponents;
+    let availableComponents: DiscoveredComponent[] = [];
 
     if (interactive) {
       const { selectComponents } = await import("../interactive");
 
       try {
-        const result = await selectComponents(pluginName, components);
+        const result = await selectComponents(pluginName, matchingComponents);
 
         if (result.cancelled) {
           console.log("\nInstallation cancelled.");
-          if (tempDir) {
-            await cleanup(tempDir);
-          }
           return { status: "skipped", pluginName: "" };
         }
 
         if (result.selected.length === 0) {
           console.log("No components selected. Nothing installed.");
-          if (tempDir) {
-            await cleanup(tempDir);
-          }
           return { status: "skipped", pluginName: "" };
         }
 
@@ -133,45 +260,73 @@ export async function install(path: string, options: InstallOptions): Promise<In
       } catch (error) {
         if (error instanceof Error && error.message.includes("User force closed")) {
           console.log("\nInstallation cancelled.");
-          if (tempDir) {
-            await cleanup(tempDir);
-          }
           return { status: "skipped", pluginName: "" };
         }
         throw error;
       }
+    } else if (existingPlugin?.selection) {
+      const applied = applySelection(matchingComponents, existingPlugin.selection);
+      componentsToInstall = applied.selected;
+      availableComponents = applied.available;
+
+      if (verbose) {
+        console.log(
+          `[VERBOSE] Keeping previous selection of ${componentsToInstall.length} component(s)`,
+        );
+      }
     }
 
+    // Only a partial install remembers its selection; new upstream components stay unselected
+    const selection =
+      componentsToInstall.length < matchingComponents.length
+        ? createSelection(
+            matchingComponents.filter((component) => !availableComponents.includes(component)),
+            componentsToInstall,
+          )
+        : undefined;
+
     // Step 4: Compute plugin hash
     const pluginHash = await computePluginHash(components);
     const shortHash = pluginHash.substring(0, 8);
+    const resolvedCommit = isRemotePluginSource(pluginSource) ? pluginSource.commit : undefined;
+
+    if (expectedHashes) {
+      const expectedHash = expectedHashes[pluginName];
+      if (!expectedHash) {
+        throw new Error(`Unexpected plugin ${pluginName}: no content hash to verify it against`);
+      }
+      if (pluginHash !== expectedHash) {
+        throw new Error(
+          `Content hash mismatch for ${pluginName}: expected [${expectedHash.substring(0, 8)}], got [${shortHash}]`,
+        );
+      }
+    }
 
     if (verbose) {
       console.log(`[VERBOSE] Plugin hash: ${pluginHash}`);
       console.log(`[VERBOSE] Found ${components.length} component(s)`);
-      if (interactive && componentsToInstall.length < components.length) {
+      if (componentsToInstall.length < components.length) {
         console.log(
           `[VERBOSE] Selected ${componentsToInstall.length} component(s) for installation`,
         );
       }
     }
 
-    console.log(`Installing ${pluginName} [${shortHash}]...`);
+    if (!options.dryRun) {
+      console.log(`Installing ${pluginName} [${shortHash}]...`);
+    }
 
     // Step 5: Check for existing installation
-    const existingPlugin = await getInstalledPlugin(pluginName, scope, targetDir);
     let installStatus: "installed" | "updated" | "skipped" = "installed";
 
     if (existingPlugin) {
       if (existingPlugin.hash === pluginHash) {
-        if (skipIfSameHash) {
+        // A changed component filter still needs a reinstall
+        if (skipIfSameHash && isSameFilter(filter, existingPlugin.filter)) {
           if (verbose) {
             console.log(`[VERBOSE] Skipping ${pluginName} (already up to date)`);
           }
-          if (tempDir) {
-            await cleanup(tempDir);
-          }
-          return { status: "skipped", pluginName };
+          return { status: "skipped", pluginName, hash: pluginHash, commit: resolvedCommit };
         }
         // Same plugin, same hash - reinstall
         if (verbose) {
@@ -182,13 +337,20 @@ export async function install(path: string, options: InstallOptions): Promise<In
         // Same plugin, different hash - update
         if (verbose) {
           console.log(
-            `[VERBOSE] Updating plugin from [${existingPlugin.hash.substring(0, 8)}] to [${shortHash}]`,
+            `[VERBOSE] Updating plugin from [${formatHash(existingPlugin.hash)}] to [${shortHash}]`,
           );
         }
         installStatus = "updated";
       }
     }
 
+    if (options.dryRun) {
+      console.log(
+        `Would ${installStatus === "updated" ? "update" : "install"} ${pluginName} [${shortHash}]`,
+      );
+      return { status: installStatus, pluginName, hash: pluginHash, commit: resolvedCommit };
+    }
+
     // Step 6: Detect conflicts
     const conflicts = await detectConflicts(componentsToInstall, pluginName, scope, targetDir);
 
@@ -216,7 +378,7 @@ export async function install(path: string, options: InstallOptions): Promise<In
     // Step 7: Ensure target directories exist
     await ensureComponentDirsExist(scope, targetDir);
 
-    // Step 8: Copy components
+    // Step 8: Stage components next to their targets, then swap them into place
     const installedComponents = {
       commands: [] as string[],
       agents: [] as string[],
@@ -225,74 +387,227 @@ export async function install(path: string, options: InstallOptions): Promise<In
 
     // Sort components by name to ensure deterministic installation order and registry entry
     const sortedComponents = [...componentsToInstall].sort((a, b) => a.name.localeCompare(b.name));
+    const transaction = createTransaction();
+    const changes = { added: 0, changed: 0, unchanged: 0, removed: 0 };
+
+    try {
+      for (const component of sortedComponents) {
+        const targetPath = getComponentTargetPath(
+          pluginName,
+          component.name,
+          component.type,
+          scope,
+          targetDir,
+        );
 
-    for (const component of sortedComponents) {
-      const targetPath = getComponentTargetPath(
-        pluginName,
-        component.name,
-        component.type,
-        scope,
-        targetDir,
-      );
+        // Remove trailing slash for copying
+        const normalizedTarget = targetPath.endsWith("/") ? targetPath.slice(0, -1) : targetPath;
+        const change = existingPlugin
+          ? await getComponentChange(component, normalizedTarget, existingPlugin)
+          : null;
 
-      // Remove trailing slash for copying
-      const normalizedTarget = targetPath.endsWith("/") ? targetPath.slice(0, -1) : targetPath;
-
-      if (component.type === "skill") {
-        // Recursive directory copy
-        await mkdir(dirname(normalizedTarget), { recursive: true });
-        await cp(component.sourcePath, normalizedTarget, { recursive: true });
-        installedComponents.skills.push(basename(normalizedTarget));
-      } else if (component.type === "command") {
-        // Single file copy for commands
-        await mkdir(dirname(normalizedTarget), { recursive: true });
-        await copyFile(component.sourcePath, normalizedTarget);
-        installedComponents.commands.push(basename(normalizedTarget));
-      } else {
-        // Single file copy for agents
-        await mkdir(dirname(normalizedTarget), { recursive: true });
-        await copyFile(component.sourcePath, normalizedTarget);
-        installedComponents.agents.push(basename(normalizedTarget));
+        await stageFile(transaction, component.sourcePath, normalizedTarget);
+
+        if (component.type === "skill") {
+          installedComponents.skills.push(basename(normalizedTarget));
+        } else if (component.type === "command") {
+          installedComponents.commands.push(basename(normalizedTarget));
+        } else {
+          installedComponents.agents.push(basename(normalizedTarget));
+        }
+
+        if (change) {
+          changes[change]++;
+        }
+        console.log(
+          `  → ${component.type}/${component.targetName}${change && change !== "unchanged" ? ` (${change})` : ""}`,
+        );
       }
 
-      console.log(`  → ${component.type}/${component.targetName}`);
-    }
+      // Remove components the previous version installed but this one no longer provides
+      for (const { type, targetName } of getRemovedComponents(
+        existingPlugin,
+        installedComponents,
+      )) {
+        removeFile(transaction, join(getComponentDir(type, scope, targetDir), targetName));
+        changes.removed++;
+        console.log(`  ✗ ${type}/${targetName} (removed)`);
+      }
 
-    // Step 9: Update registry
-    const registry = await loadRegistry(scope, targetDir);
+      await applyTransaction(transaction);
 
-    const newPlugin: InstalledPlugin = {
-      name: pluginName,
-      hash: pluginHash,
-      scope,
-      source: pluginSource,
-      installedAt: new Date().toISOString(),
-      components: installedComponents,
-    };
+      // Step 9: Update registry (previous files are kept until this succeeds)
+      const registry = await loadRegistry(scope, targetDir);
 
-    registry.plugins[pluginName] = newPlugin;
-    await saveRegistry(registry, scope, targetDir);
+      const newPlugin: InstalledPlugin = {
+        name: pluginName,
+        hash: pluginHash,
+        scope,
+        source: pluginSource,
+        installedAt: new Date().toISOString(),
+        ...(targetDir && { targetDir: resolve(targetDir) }),
+        ...(selection && { selection }),
+        ...(filter && { filter }),
+        components: installedComponents,
+      };
 
-    // Step 10: Cleanup temp directory if remote installation
-    if (tempDir) {
-      await cleanup(tempDir);
+      registry.plugins[pluginName] = newPlugin;
+      await saveRegistry(registry, scope, targetDir);
+    } catch (error) {
+      if (verbose) {
+        console.log("[VERBOSE] Installation failed, restoring previous files");
+      }
+      await rollbackTransaction(transaction);
+      throw error;
     }
 
-    // Step 11: Print success message
+    await commitTransaction(transaction);
+
+    // Step 10: Print success message
     const componentCounts = formatComponentCount(installedComponents);
     const locationMsg = targetDir ? `to ${targetDir}` : `to ${scope} scope`;
     console.log(`\nInstalled ${pluginName} (${componentCounts}) ${locationMsg}.`);
 
-    return { status: installStatus, pluginName };
-  } catch (error) {
-    // Cleanup temp directory on error
-    if (tempDir) {
-      await cleanup(tempDir);
+    if (existingPlugin && changes.added + changes.changed + changes.removed > 0) {
+      console.log(
+        `Components: ${changes.added} added, ${changes.changed} changed, ${changes.removed} removed.`,
+      );
+    }
+
+    if (availableComponents.length > 0) {
+      console.log(
+        `Available but not installed: ${availableComponents.map((component) => `${component.type}/${component.name}`).join(", ")}`,
+      );
+      console.log(`Run 'opencode-marketplace install -i ${path}' to select them.`);
     }
 
-    // Re-throw the error to let the caller handle it
-    throw error;
+    return { status: installStatus, pluginName, hash: pluginHash, commit: resolvedCommit };
+  });
+}
+
+/**
+ * Installs the selected plugins of a multi-plugin source, each as its own registry entry.
+ * Plugins are chosen with --all, --plugin, or an interactive picker (not with nonInteractive).
+ */
+async function installNestedPlugins(
+  path: string,
+  nestedPlugins: NestedPlugin[],
+  options: InstallOptions,
+): Promise<InstallResult> {
+  const names = nestedPlugins.map((plugin) => plugin.name);
+
+  if (options.name) {
+    throw new Error(
+      `Cannot install ${path} as "${options.name}": it contains ${names.length} plugins (${names.join(", ")}).`,
+    );
   }
+
+  const selected = await selectNestedPlugins(path, names, options);
+
+  if (selected.length === 0) {
+    return { status: "skipped", pluginName: "" };
+  }
+
+  console.log(`Found ${names.length} plugins in ${path}: ${names.join(", ")}\n`);
+
+  const results: InstallResult[] = [];
+
+  for (const plugin of nestedPlugins.filter((entry) => selected.includes(entry.name))) {
+    if (results.length > 0) {
+      console.log(""); // Empty line between plugins
+    }
+
+    results.push(
+      await installPlugin(plugin.path, plugin.source, formatPluginSource(plugin.source), options),
+    );
+  }
+
+  const statuses = results.map((result) => result.status);
+  const status = statuses.includes("updated")
+    ? "updated"
+    : statuses.includes("installed")
+      ? "installed"
+      : "skipped";
+
+  return {
+    status,
+    pluginName: results.map((result) => result.pluginName).join(", "),
+    // All plugins come from the same fetch
+    commit: results[0]?.commit,
+    plugins: results,
+  };
+}
+
+/**
+ * Picks the plugins to install from a multi-plugin source.
+ *
+ * @throws Error if a requested plugin doesn't exist or no choice is possible without a terminal
+ */
+async function selectNestedPlugins(
+  path: string,
+  names: string[],
+  options: InstallOptions,
+): Promise<string[]> {
+  if (options.all) {
+    return names;
+  }
+
+  if (options.plugin) {
+    const requested = Array.isArray(options.plugin) ? options.plugin : [options.plugin];
+    const unknown = requested.filter((name) => !names.includes(name));
+
+    if (unknown.length > 0) {
+      throw new Error(
+        `Plugin "${unknown[0]}" not found in ${path}. Available plugins: ${names.join(", ")}`,
+      );
+    }
+
+    return requested;
+  }
+
+  if (names.length === 1) {
+    return names;
+  }
+
+  if (options.nonInteractive || !process.stdin.isTTY) {
+    const hint = options.nonInteractive
+      ? `Set "all": true or "plugin": [...] in its import entry`
+      : "Use --all to install all of them or --plugin <name> to pick one";
+    throw new Error(`${path} contains ${names.length} plugins (${names.join(", ")}). ${hint}.`);
+  }
+
+  const { selectPlugins } = await import("../interactive");
+  const result = await selectPlugins(path, names);
+
+  if (result.cancelled) {
+    console.log("\nInstallation cancelled.");
+  } else if (result.selected.length === 0) {
+    console.log("No plugins selected. Nothing installed.");
+  }
+
+  return result.selected;
+}
+
+/**
+ * Returns the install source for a `<plugin>@<marketplace>` reference,
+ * or the input unchanged for any other source.
+ */
+async function resolveMarketplaceSource(
+  input: string,
+  options: { verbose?: boolean; offline?: boolean },
+): Promise<string> {
+  const reference = parseMarketplaceReference(input);
+  if (!reference) {
+    return input;
+  }
+
+  const plugin = await resolveMarketplacePlugin(reference, { offline: options.offline });
+
+  if (options.verbose) {
+    console.log(`[VERBOSE] Resolved ${input} to ${plugin.source}`);
+  }
+
+  return plugin.source;
 }
 
 /**
@@ -357,3 +672,87 @@ function findOwningPlugin(
   }
   return null;
 }
+
+/**
+ * Classifies a component against the previously installed version of its plugin.
+ * A component is changed if its installed file (or skill directory) differs from the new one.
+ */
+async function getComponentChange(
+  component: DiscoveredComponent,
+  targetPath: string,
+  existingPlugin: InstalledPlugin,
+): Promise<ComponentChange> {
+  const previous =
+    existingPlugin.components[`${component.type}s` as keyof typeof existingPlugin.components];
+
+  if (!previous.includes(component.targetName)) {
+    return "added";
+  }
+
+  return (await hasSameContent(component.sourcePath, targetPath)) ? "unchanged" : "changed";
+}
+
+/**
+ * Lists components of the previously installed version that are missing from the new set.
+ */
+function getRemovedComponents(
+  existingPlugin: InstalledPlugin | null,
+  installedComponents: InstalledPlugin["components"],
+): { type: ComponentType; targetName: string }[] {
+  if (!existingPlugin) {
+    return [];
+  }
+
+  const types: ComponentType[] = ["command", "agent", "skill"];
+
+  return types.flatMap((type) => {
+    const key = `${type}s` as keyof typeof installedComponents;
+    return existingPlugin.components[key]
+      .filter((targetName) => !installedComponents[key].includes(targetName))
+      .map((targetName) => ({ type, targetName }));
+  });
+}
+
+/**
+ * Compares two files or directory trees byte by byte. Missing paths never match.
+ */
+async function hasSameContent(sourcePath: string, targetPath: string): Promise<boolean> {
+  if (!existsSync(targetPath)) {
+    return false;
+  }
+
+  const [sourceStat, targetStat] = await Promise.all([stat(sourcePath), stat(targetPath)]);
+
+  if (sourceStat.isDirectory() !== targetStat.isDirectory()) {
+    return false;
+  }
+
+  if (!sourceStat.isDirectory()) {
+    const [sourceContent, targetContent] = await Promise.all([
+      readFile(sourcePath),
+      readFile(targetPath),
+    ]);
+    return sourceContent.equals(targetContent);
+  }
+
+  const [sourceEntries, targetEntries] = await Promise.all([
+    readdir(sourcePath),
+    readdir(targetPath),
+  ]);
+
+  if (sourceEntries.sort().join("\0") !== targetEntries.sort().join("\0")) {
+    return false;
+  }
+
+  for (const entry of sourceEntries) {
+    if (!(await hasSameContent(join(sourcePath, entry), join(targetPath, entry)))) {
+      return false;
+    }
+  }
+
+  return true;
+}
+
+function isSameFilter(a?: ComponentFilter, b?: ComponentFilter): boolean {
+  return JSON.stringify(a ?? {}) === JSON.stringify(b ?? {});
+}
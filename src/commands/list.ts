@@ -1,9 +1,12 @@
-import { formatComponentCount } from "../format";
+import { formatCommit, formatComponentCount, formatHash } from "../format";
 import { getAllInstalledPlugins } from "../registry";
+import { formatComponentFilter } from "../selection";
+import { formatPluginSource, isRemotePluginSource } from "../source";
 import type { InstalledPlugin, Scope } from "../types";
 
 export interface ListOptions {
   scope?: Scope;
+  targetDir?: string;
   verbose?: boolean;
 }
 
@@ -12,7 +15,7 @@ export async function list(options: ListOptions) {
     console.log("[VERBOSE] Listing plugins with options:", options);
   }
 
-  const plugins = await getAllInstalledPlugins(options.scope);
+  const plugins = await getAllInstalledPlugins(options.scope, options.targetDir);
 
   // Filter by scope if specified
   const filteredPlugins = options.scope
@@ -54,15 +57,24 @@ export async function list(options: ListOptions) {
 
 function displayPlugin(plugin: InstalledPlugin, verbose = false) {
   const componentCount = formatComponentCount(plugin.components);
-  const shortHash = plugin.hash.substring(0, 8);
-
-  console.log(`  ${plugin.name} [${shortHash}] (${componentCount})`);
+  console.log(`  ${plugin.name} [${formatHash(plugin.hash)}] (${componentCount})`);
 
   // Display source based on type
-  const sourceText = plugin.source.type === "remote" ? plugin.source.url : plugin.source.path;
-  console.log(`    Source: ${sourceText}`);
+  console.log(`    Source: ${formatPluginSource(plugin.source)}`);
+
+  if (plugin.targetDir) {
+    console.log(`    Target: ${plugin.targetDir}`);
+  }
+
+  if (isRemotePluginSource(plugin.source) && plugin.source.commit) {
+    const commitText = verbose ? plugin.source.commit : formatCommit(plugin.source.commit);
+    console.log(`    Commit: ${commitText}`);
+  }
 
   if (verbose) {
+    if (plugin.source.type === "archive") {
+      console.log(`    Checksum: sha256:${plugin.source.checksum}`);
+    }
     console.log(`    Installed: ${plugin.installedAt}`);
     console.log(`    Scope: ${plugin.scope}`);
 
@@ -75,5 +87,11 @@ function displayPlugin(plugin: InstalledPlugin, verbose = false) {
     if (plugin.components.skills.length > 0) {
       console.log(`    Skills: ${plugin.components.skills.join(", ")}`);
     }
+    if (plugin.filter) {
+      console.log(`    Filter: ${formatComponentFilter(plugin.filter)}`);
+    }
+    if (plugin.selection?.excluded.length) {
+      console.log(`    Excluded: ${plugin.selection.excluded.join(", ")}`);
+    }
   }
 }
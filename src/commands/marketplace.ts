@@ -0,0 +1,176 @@
+import { resolve } from "node:path";
+import { loadConfig, saveMarketplaces } from "../config";
+import {
+  fetchMarketplace,
+  loadMarketplace,
+  removeMarketplaceCache,
+  saveMarketplace,
+} from "../marketplace";
+import { isRemoteSource } from "../source";
+import type { Marketplace } from "../types";
+
+export interface MarketplaceOptions {
+  name?: string;
+  offline?: boolean;
+  verbose?: boolean;
+}
+
+/**
+ * Registers a marketplace catalog and caches its plugin list.
+ */
+export async function marketplaceAdd(source: string, options: MarketplaceOptions) {
+  const { name, offline, verbose } = options;
+
+  try {
+    // Local catalogs are stored as absolute paths so they resolve from any directory
+    const catalogSource = isRemoteSource(source) ? source : resolve(source);
+    const { marketplace, skipped } = await fetchMarketplace(catalogSource, { name, offline });
+    const marketplaces = { ...loadConfig().marketplaces };
+
+    if (marketplaces[marketplace.name]) {
+      throw new Error(
+        `Marketplace "${marketplace.name}" is already added. Use --name to register it under a different name.`,
+      );
+    }
+
+    await saveMarketplace(marketplace);
+    marketplaces[marketplace.name] = { source: catalogSource, addedAt: new Date().toISOString() };
+    await saveMarketplaces(marketplaces);
+
+    printSkipped(skipped);
+    if (verbose) {
+      printPlugins(marketplace);
+    }
+
+    console.log(
+      `Added marketplace ${marketplace.name} (${formatPluginCount(marketplace)}) from ${catalogSource}.`,
+    );
+  } catch (error) {
+    console.error(`\nError: ${error instanceof Error ? error.message : String(error)}`);
+    process.exit(1);
+  }
+}
+
+/**
+ * Unregisters a marketplace catalog and removes its cached copy.
+ * Plugins installed from it are left untouched.
+ */
+export async function marketplaceRemove(name: string) {
+  try {
+    const marketplaces = { ...loadConfig().marketplaces };
+
+    if (!marketplaces[name]) {
+      throw new Error(`Marketplace "${name}" is not added.
+
+Run 'opencode-marketplace marketplace list' to see added marketplaces.`);
+    }
+
+    delete marketplaces[name];
+    await saveMarketplaces(marketplaces);
+    await removeMarketplaceCache(name);
+
+    console.log(`Removed marketplace ${name}.`);
+  } catch (error) {
+    console.error(`\nError: ${error instanceof Error ? error.message : String(error)}`);
+    process.exit(1);
+  }
+}
+
+/**
+ * Lists registered marketplaces with their cached plugin count.
+ */
+export async function marketplaceList(options: MarketplaceOptions) {
+  const marketplaces = loadConfig().marketplaces ?? {};
+  const names = Object.keys(marketplaces).sort();
+
+  if (names.length === 0) {
+    console.log("No marketplaces added.");
+    console.log("\nAdd one with 'opencode-marketplace marketplace add <source>'.");
+    return;
+  }
+
+  for (const name of names) {
+    const marketplace = await loadMarketplace(name);
+
+    console.log(
+      marketplace
+        ? `${name} (${formatPluginCount(marketplace)}, refreshed ${marketplace.refreshedAt})`
+        : `${name} (not fetched)`,
+    );
+    console.log(`  Source: ${marketplaces[name].source}`);
+
+    if (options.verbose && marketplace) {
+      printPlugins(marketplace);
+    }
+  }
+}
+
+/**
+ * Re-fetches one or all registered marketplace catalogs.
+ * Keeps going when a catalog fails and exits non-zero at the end.
+ */
+export async function marketplaceRefresh(name: string | undefined, options: MarketplaceOptions) {
+  const { offline, verbose } = options;
+  const marketplaces = loadConfig().marketplaces ?? {};
+
+  if (name && !marketplaces[name]) {
+    console.error(`Error: Marketplace "${name}" is not added.`);
+    process.exit(1);
+  }
+
+  const names = name ? [name] : Object.keys(marketplaces).sort();
+
+  if (names.length === 0) {
+    console.log("No marketplaces added.");
+    return;
+  }
+
+  let failed = 0;
+
+  for (const marketplaceName of names) {
+    try {
+      const { source } = marketplaces[marketplaceName];
+      const { marketplace, skipped } = await fetchMarketplace(source, {
+        name: marketplaceName,
+        offline,
+      });
+      await saveMarketplace(marketplace);
+
+      console.log(`Refreshed ${marketplaceName} (${formatPluginCount(marketplace)}).`);
+      printSkipped(skipped);
+      if (verbose) {
+        printPlugins(marketplace);
+      }
+    } catch (error) {
+      failed++;
+      console.error(
+        `Failed to refresh ${marketplaceName}: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  }
+
+  if (failed > 0) {
+    process.exit(1);
+  }
+}
+
+function formatPluginCount(marketplace: Marketplace): string {
+  const count = marketplace.plugins.length;
+  return `${count} plugin${count === 1 ? "" : "s"}`;
+}
+
+function printPlugins(marketplace: Marketplace) {
+  for (const plugin of marketplace.plugins) {
+    console.log(`  ${plugin.name}${plugin.version ? ` v${plugin.version}` : ""}`);
+    if (plugin.description) {
+      console.log(`    ${plugin.description}`);
+    }
+    console.log(`    Source: ${plugin.source}`);
+  }
+}
+
+function printSkipped(skipped: string[]) {
+  for (const entry of skipped) {
+    console.warn(`Warning: Skipping plugin ${entry}`);
+  }
+}
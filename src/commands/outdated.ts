@@ -0,0 +1,163 @@
+import { discoverComponents } from "../discovery";
+import { formatCommit, formatHash } from "../format";
+import { cleanup, cloneToTemp } from "../git";
+import { loadRegistry } from "../registry";
+import { computePluginHash } from "../resolution";
+import { formatPluginSource, isRemotePluginSource, parseRemoteSource } from "../source";
+import type { InstalledPlugin, RemotePluginSource, Scope } from "../types";
+
+export interface OutdatedOptions {
+  scope?: Scope;
+  targetDir?: string;
+  offline?: boolean;
+  verbose?: boolean;
+}
+
+export interface AvailableVersion {
+  hash: string;
+  commit: string;
+  source: RemotePluginSource; // registry record for the fetched commit
+}
+
+interface OutdatedRow {
+  plugin: InstalledPlugin;
+  scope: Scope;
+  available?: AvailableVersion;
+  error?: string;
+}
+
+/**
+ * Fetches the source of a remote plugin and computes the hash it would install with.
+ *
+ * @throws Error if the source can't be fetched
+ */
+export async function fetchAvailableVersion(
+  plugin: InstalledPlugin,
+  options: { offline?: boolean; verbose?: boolean } = {},
+): Promise<AvailableVersion> {
+  const sourceUrl = formatPluginSource(plugin.source);
+  const remote = parseRemoteSource(sourceUrl);
+
+  if (!remote) {
+    throw new Error(`Invalid remote URL in registry: ${sourceUrl}`);
+  }
+
+  const cloneResult = await cloneToTemp(remote.cloneUrl, remote.ref, remote.subpath, {
+    offline: options.offline,
+  });
+
+  try {
+    if (options.verbose) {
+      console.log(`[VERBOSE] Cloned to ${cloneResult.tempDir}`);
+    }
+
+    const components = await discoverComponents(cloneResult.pluginPath, plugin.name);
+
+    return {
+      hash: await computePluginHash(components),
+      commit: cloneResult.commit,
+      source: { ...remote.source, commit: cloneResult.commit },
+    };
+  } finally {
+    await cleanup(cloneResult.tempDir);
+  }
+}
+
+/**
+ * Checks remote plugins for upstream changes without installing anything.
+ * Prints current vs. available versions and exits non-zero if a plugin is outdated
+ * or couldn't be checked.
+ */
+export async function outdated(options: OutdatedOptions) {
+  const scopes: Scope[] = options.scope ? [options.scope] : ["user", "project"];
+  const rows: OutdatedRow[] = [];
+
+  for (const scope of scopes) {
+    const registry = await loadRegistry(scope, options.targetDir);
+    const plugins = Object.values(registry.plugins)
+      .filter((plugin) => isRemotePluginSource(plugin.source))
+      .sort((a, b) => a.name.localeCompare(b.name));
+
+    for (const plugin of plugins) {
+      if (options.verbose) {
+        console.log(`[VERBOSE] Fetching ${formatPluginSource(plugin.source)}...`);
+      }
+
+      try {
+        rows.push({ plugin, scope, available: await fetchAvailableVersion(plugin, options) });
+      } catch (error) {
+        rows.push({
+          plugin,
+          scope,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+  }
+
+  if (rows.length === 0) {
+    const scopeText = options.scope ? `${options.scope} scope` : "any scope";
+    console.log(`No remote plugins installed in ${scopeText}.`);
+    return;
+  }
+
+  const table = [
+    ["Plugin", "Scope", "Current", "Available", "Status"],
+    ...rows.map((row) => [
+      row.plugin.name,
+      row.scope,
+      formatVersion(row.plugin.hash, getRecordedCommit(row.plugin)),
+      row.available ? formatVersion(row.available.hash, row.available.commit) : "-",
+      getStatus(row),
+    ]),
+  ];
+  const widths = table[0].map((_, column) =>
+    Math.max(...table.map((cells) => cells[column].length)),
+  );
+
+  for (const cells of table) {
+    console.log(
+      cells
+        .map((cell, column) => cell.padEnd(widths[column]))
+        .join("  ")
+        .trimEnd(),
+    );
+  }
+
+  for (const row of rows) {
+    if (row.error) {
+      console.error(`\nError checking ${row.plugin.name} (${row.scope}): ${row.error}`);
+    }
+  }
+
+  const outdatedCount = rows.filter((row) => getStatus(row) === "outdated").length;
+  const failedCount = rows.filter((row) => row.error).length;
+
+  if (outdatedCount > 0) {
+    console.log(
+      `\n${outdatedCount} plugin${outdatedCount === 1 ? " is" : "s are"} outdated. Run 'opencode-marketplace update --all' to update.`,
+    );
+  } else if (failedCount === 0) {
+    console.log("\nAll remote plugins are up to date.");
+  }
+
+  if (outdatedCount > 0 || failedCount > 0) {
+    process.exit(1);
+  }
+}
+
+function getRecordedCommit(plugin: InstalledPlugin): string | undefined {
+  return isRemotePluginSource(plugin.source) ? plugin.source.commit : undefined;
+}
+
+function formatVersion(hash: string, commit?: string): string {
+  return commit ? `${formatHash(hash)} (${formatCommit(commit)})` : formatHash(hash);
+}
+
+function getStatus(row: OutdatedRow): string {
+  if (!row.available) {
+    return "error";
+  }
+  // Only a content change needs an update; a new commit alone installs the same files
+  return row.available.hash === row.plugin.hash ? "up to date" : "outdated";
+}
@@ -0,0 +1,202 @@
+import { existsSync } from "node:fs";
+import { readdir, rename } from "node:fs/promises";
+import { resolve } from "node:path";
+import { formatComponentCount } from "../format";
+import { getComponentDir } from "../paths";
+import {
+  getRegistryBackupPath,
+  getRegistryPath,
+  REGISTRY_BACKUPS,
+  readRegistryFile,
+  saveRegistry,
+} from "../registry";
+import type { ComponentType, InstalledPlugin, PluginRegistry, Scope } from "../types";
+import { validatePluginName } from "../types";
+
+export interface RegistryOptions {
+  scope: Scope;
+  targetDir?: string;
+  dryRun?: boolean; // show what would change without writing the registry
+  verbose?: boolean;
+}
+
+type InstalledComponents = InstalledPlugin["components"];
+
+const COMPONENT_TYPES: ComponentType[] = ["command", "agent", "skill"];
+
+export async function registryRepair(options: RegistryOptions) {
+  try {
+    await repairRegistry(options);
+  } catch (error) {
+    console.error(`\nError: ${error instanceof Error ? error.message : String(error)}`);
+    process.exit(1);
+  }
+}
+
+/**
+ * Rebuilds a registry from the namespaced component files (`<plugin>--<name>`) on disk.
+ *
+ * Entries are based on the registry itself or, if it is invalid, on its newest valid backup.
+ * Their component lists are replaced by the files found on disk; entries without files are
+ * dropped, and plugins with files but no entry are recovered with an unknown source.
+ * An invalid registry file is kept as installed.json.corrupt-<timestamp>.
+ */
+async function repairRegistry(options: RegistryOptions): Promise<void> {
+  const { scope, targetDir, dryRun } = options;
+  const path = getRegistryPath(scope, targetDir);
+
+  console.log(`${dryRun ? "Checking" : "Repairing"} registry ${path}...`);
+
+  const { registry, invalid } = await loadRepairBase(path);
+  const found = await scanComponents(scope, targetDir);
+  const names = [...new Set([...Object.keys(registry.plugins), ...found.keys()])].sort();
+  const repaired: PluginRegistry = { version: 2, plugins: {} };
+  const results = { recovered: 0, updated: 0, removed: 0, unchanged: 0 };
+
+  for (const name of names) {
+    const plugin = registry.plugins[name];
+    const components = found.get(name);
+
+    if (!components) {
+      console.log(`  - ${name} (no files on disk)`);
+      results.removed++;
+      continue;
+    }
+
+    if (!plugin) {
+      repaired.plugins[name] = {
+        name,
+        hash: "",
+        scope,
+        source: { type: "unknown" },
+        installedAt: new Date().toISOString(),
+        ...(targetDir && scope === "user" && { targetDir: resolve(targetDir) }),
+        components,
+      };
+      console.log(`  + ${name} (recovered: ${formatComponentCount(components)}, source unknown)`);
+      results.recovered++;
+      continue;
+    }
+
+    repaired.plugins[name] = { ...plugin, components };
+
+    if (JSON.stringify(plugin.components) !== JSON.stringify(components)) {
+      console.log(`  ~ ${name} (components: ${formatComponentCount(components)})`);
+      results.updated++;
+    } else {
+      if (options.verbose) {
+        console.log(`[VERBOSE] ${name} matches the files on disk`);
+      }
+      results.unchanged++;
+    }
+  }
+
+  const changed = invalid || results.recovered + results.updated + results.removed > 0;
+
+  if (!changed) {
+    console.log("\nRegistry matches the installed files; nothing to repair.");
+    return;
+  }
+
+  if (!dryRun) {
+    if (invalid) {
+      const corruptPath = `${path}.corrupt-${Date.now()}`;
+      await rename(path, corruptPath);
+      console.log(`\nKept the invalid registry as ${corruptPath}`);
+    }
+    await saveRegistry(repaired, scope, targetDir);
+  }
+
+  console.log(dryRun ? "\nDry run complete (nothing was changed):" : "\nRegistry repaired:");
+  console.log(`  Recovered: ${results.recovered}`);
+  console.log(`  Updated:   ${results.updated}`);
+  console.log(`  Removed:   ${results.removed}`);
+  console.log(`  Unchanged: ${results.unchanged}`);
+
+  if (results.recovered > 0) {
+    console.log(
+      "\nRecovered plugins have no known source. Reinstall them from their source with --force to update them later.",
+    );
+  }
+}
+
+/**
+ * Returns the registry to start the repair from: the registry file if it is valid,
+ * otherwise its newest valid backup, otherwise an empty registry.
+ */
+async function loadRepairBase(
+  path: string,
+): Promise<{ registry: PluginRegistry; invalid: boolean }> {
+  if (!existsSync(path)) {
+    return { registry: { version: 2, plugins: {} }, invalid: false };
+  }
+
+  try {
+    return { registry: (await readRegistryFile(path)).registry, invalid: false };
+  } catch (error) {
+    console.log(`  Registry is invalid: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  for (let index = 1; index <= REGISTRY_BACKUPS; index++) {
+    const backupPath = getRegistryBackupPath(path, index);
+    if (!existsSync(backupPath)) {
+      continue;
+    }
+
+    try {
+      const { registry } = await readRegistryFile(backupPath);
+      console.log(`  Using entries from backup ${backupPath}`);
+      return { registry, invalid: true };
+    } catch {
+      // Try the next older backup
+    }
+  }
+
+  console.log("  No valid backup found; rebuilding from the installed files only");
+  return { registry: { version: 2, plugins: {} }, invalid: true };
+}
+
+/**
+ * Groups the namespaced component files of a scope by plugin name.
+ * Hidden files (e.g. leftovers of an interrupted install) and names without a valid
+ * plugin prefix are ignored.
+ */
+async function scanComponents(
+  scope: Scope,
+  targetDir?: string,
+): Promise<Map<string, InstalledComponents>> {
+  const plugins = new Map<string, InstalledComponents>();
+
+  for (const type of COMPONENT_TYPES) {
+    const dir = getComponentDir(type, scope, targetDir);
+    if (!existsSync(dir)) {
+      continue;
+    }
+
+    const entries = await readdir(dir, { withFileTypes: true });
+
+    for (const entry of entries.sort((a, b) => a.name.localeCompare(b.name))) {
+      const separator = entry.name.indexOf("--");
+      const pluginName = entry.name.slice(0, separator);
+
+      if (entry.name.startsWith(".") || separator <= 0 || !validatePluginName(pluginName)) {
+        continue;
+      }
+      // Skills are directories; commands and agents are markdown files
+      if (
+        type === "skill" ? !entry.isDirectory() : !entry.isFile() || !entry.name.endsWith(".md")
+      ) {
+        continue;
+      }
+
+      let components = plugins.get(pluginName);
+      if (!components) {
+        components = { commands: [], agents: [], skills: [] };
+        plugins.set(pluginName, components);
+      }
+      components[`${type}s`].push(entry.name);
+    }
+  }
+
+  return plugins;
+}
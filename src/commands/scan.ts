@@ -1,13 +1,19 @@
 import { existsSync } from "node:fs";
 import { resolve } from "node:path";
+import { extractToTemp, isArchivePath } from "../archive";
 import { discoverComponents } from "../discovery";
 import { cleanup, cloneToTemp } from "../git";
-import { isGitHubUrl, parseGitHubUrl } from "../github";
-import { computePluginHash, inferPluginName } from "../resolution";
-import type { DiscoveredComponent } from "../types";
+import { computePluginHash, inferPluginName, resolveNestedPlugins } from "../resolution";
+import { applyComponentFilter, createComponentFilter, formatComponentFilter } from "../selection";
+import { isRemoteSource, parseRemoteSource } from "../source";
+import type { ComponentFilter, DiscoveredComponent, PluginSource } from "../types";
 
 export interface ScanOptions {
   verbose?: boolean;
+  offline?: boolean;
+  plugin?: string | string[]; // only scan these plugins of a multi-plugin source
+  include?: string | string[]; // component patterns to show, e.g. "command:review*"
+  exclude?: string | string[]; // component patterns to hide, e.g. "skill:*"
 }
 
 /**
@@ -16,30 +22,59 @@ export interface ScanOptions {
  */
 export async function scan(path: string, options: ScanOptions): Promise<void> {
   let tempDir: string | null = null;
+  let commit: string | null = null;
+  let checksum: string | null = null;
+  let source: PluginSource;
+  let filter: ComponentFilter | undefined;
 
   try {
-    // 1. Detect if path is a GitHub URL or local path
+    filter = createComponentFilter(options.include, options.exclude);
+  } catch (error) {
+    console.error(`Error: ${error instanceof Error ? error.message : String(error)}`);
+    process.exit(1);
+  }
+
+  try {
+    // 1. Detect if path is a remote URL or local path
     let absolutePath: string;
 
-    if (isGitHubUrl(path)) {
+    if (isRemoteSource(path)) {
       // Remote scan
-      const parsed = parseGitHubUrl(path);
-      if (!parsed) {
-        console.error(`Error: Invalid GitHub URL: ${path}`);
+      const remote = parseRemoteSource(path);
+      if (!remote) {
+        console.error(`Error: Invalid remote URL: ${path}`);
         process.exit(1);
       }
 
       if (options.verbose) {
-        console.log(
-          `[VERBOSE] Cloning from GitHub: ${parsed.owner}/${parsed.repo}${parsed.ref ? `@${parsed.ref}` : ""}`,
-        );
+        console.log(`[VERBOSE] Cloning from ${remote.label}${remote.ref ? `@${remote.ref}` : ""}`);
       }
 
-      // Clone repository - use base URL without /tree/ path
-      const repoUrl = `https://github.com/${parsed.owner}/${parsed.repo}.git`;
-      const cloneResult = await cloneToTemp(repoUrl, parsed.ref, parsed.subpath);
+      const cloneResult = await cloneToTemp(remote.cloneUrl, remote.ref, remote.subpath, {
+        offline: options.offline,
+      });
       tempDir = cloneResult.tempDir;
       absolutePath = cloneResult.pluginPath;
+      commit = cloneResult.commit;
+      source = { ...remote.source, commit };
+    } else if (isArchivePath(path)) {
+      // Archive scan
+      const archivePath = resolve(path);
+
+      if (options.verbose) {
+        console.log(`[VERBOSE] Extracting archive ${archivePath}`);
+      }
+
+      if (!existsSync(archivePath)) {
+        console.error(`Error: Archive not found: ${path}`);
+        process.exit(1);
+      }
+
+      const extractResult = await extractToTemp(archivePath);
+      tempDir = extractResult.tempDir;
+      absolutePath = extractResult.pluginPath;
+      checksum = extractResult.checksum;
+      source = { type: "archive", path: archivePath, checksum };
     } else {
       // Local scan
       absolutePath = resolve(path);
@@ -52,12 +87,46 @@ export async function scan(path: string, options: ScanOptions): Promise<void> {
         console.error(`Error: Directory not found: ${path}`);
         process.exit(1);
       }
+
+      source = { type: "local", path: absolutePath };
+    }
+
+    // 1.5. Repositories holding several plugins are scanned plugin by plugin
+    const nestedPlugins = await resolveNestedPlugins(absolutePath, source);
+
+    if (nestedPlugins.length > 0) {
+      const requested = options.plugin ? [options.plugin].flat() : null;
+      const unknown = requested?.filter(
+        (name) => !nestedPlugins.some((plugin) => plugin.name === name),
+      );
+
+      if (unknown && unknown.length > 0) {
+        console.error(
+          `Error: Plugin "${unknown[0]}" not found in ${path}. Available plugins: ${nestedPlugins.map((plugin) => plugin.name).join(", ")}`,
+        );
+        process.exit(1);
+      }
+
+      console.log(
+        `Found ${nestedPlugins.length} plugins in ${path}: ${nestedPlugins.map((plugin) => plugin.name).join(", ")}`,
+      );
+
+      for (const plugin of nestedPlugins) {
+        if (!requested || requested.includes(plugin.name)) {
+          console.log();
+          await scanPlugin(plugin.path, plugin.name, options, { commit, checksum, filter });
+        }
+      }
+
+      console.log();
+      console.log("Install with --all, or pick plugins with --plugin <name> (repeatable).");
+      return;
     }
 
     // 2. Resolve plugin identity using unified logic
     let pluginName: string;
     try {
-      pluginName = await inferPluginName(absolutePath, isGitHubUrl(path) ? path : undefined);
+      pluginName = await inferPluginName(absolutePath, isRemoteSource(path) ? path : undefined);
 
       if (options.verbose) {
         console.log(`[VERBOSE] Resolved plugin name: ${pluginName}`);
@@ -67,58 +136,99 @@ export async function scan(path: string, options: ScanOptions): Promise<void> {
       process.exit(1);
     }
 
-    // 3. Discover components
-    const components = await discoverComponents(absolutePath, pluginName);
-
-    // 4. Compute and shorten hash
-    let hash = "";
-    try {
-      const fullHash = await computePluginHash(components);
-      hash = shortenHash(fullHash);
-
-      if (options.verbose) {
-        console.log(`[VERBOSE] Computed hash: ${fullHash} (shortened to ${hash})`);
-        console.log();
-      }
-    } catch (error) {
-      // Partial results with warning (per design decision #3)
-      console.warn(
-        `Warning: Failed to compute hash: ${error instanceof Error ? error.message : String(error)}`,
+    const unknown = options.plugin
+      ? [options.plugin].flat().find((name) => name !== pluginName)
+      : null;
+    if (unknown) {
+      console.error(
+        `Error: Plugin "${unknown}" not found in ${path}. Available plugins: ${pluginName}`,
       );
-      hash = "????????"; // Placeholder for failed hash
+      process.exit(1);
     }
 
-    // 5. Display results
-    console.log(`Scanning ${pluginName} [${hash}]...`);
+    await scanPlugin(absolutePath, pluginName, options, { commit, checksum, filter });
+  } finally {
+    // Cleanup temp directory if remote scan
+    if (tempDir) {
+      await cleanup(tempDir);
+    }
+  }
+}
 
-    if (components.length === 0) {
-      console.log();
-      console.log("No components found.");
+/**
+ * Displays the components and hash of a single plugin directory.
+ */
+async function scanPlugin(
+  absolutePath: string,
+  pluginName: string,
+  options: ScanOptions,
+  details: { commit: string | null; checksum: string | null; filter?: ComponentFilter },
+): Promise<void> {
+  const { commit, checksum, filter } = details;
+
+  // 3. Discover components
+  const components = await discoverComponents(absolutePath, pluginName);
+
+  // 4. Compute and shorten hash
+  let hash = "";
+  try {
+    const fullHash = await computePluginHash(components);
+    hash = shortenHash(fullHash);
+
+    if (options.verbose) {
+      console.log(`[VERBOSE] Computed hash: ${fullHash} (shortened to ${hash})`);
       console.log();
-      console.log("Expected directories:");
-      console.log("  - .opencode/commands/, .claude/commands/, commands/, or command/");
-      console.log("  - .opencode/agents/, .claude/agents/, agents/, or agent/");
-      console.log("  - .opencode/skills/, .claude/skills/, skills/, or skill/");
-      return;
     }
+  } catch (error) {
+    // Partial results with warning (per design decision #3)
+    console.warn(
+      `Warning: Failed to compute hash: ${error instanceof Error ? error.message : String(error)}`,
+    );
+    hash = "????????"; // Placeholder for failed hash
+  }
 
-    // Display components (matching install output format)
-    for (const component of components) {
-      const suffix = component.type === "skill" ? "/" : "";
-      console.log(`  → ${component.type}/${component.targetName}${suffix}`);
-    }
+  // 5. Display results
+  console.log(`Scanning ${pluginName} [${hash}]...`);
 
+  if (commit) {
+    console.log(`  Commit: ${commit}`);
+  }
+
+  if (checksum) {
+    console.log(`  Checksum: sha256:${checksum}`);
+  }
+
+  if (components.length === 0) {
     console.log();
+    console.log("No components found.");
+    console.log();
+    console.log("Expected directories:");
+    console.log("  - .opencode/commands/, .claude/commands/, commands/, or command/");
+    console.log("  - .opencode/agents/, .claude/agents/, agents/, or agent/");
+    console.log("  - .opencode/skills/, .claude/skills/, skills/, or skill/");
+    return;
+  }
 
-    // Display summary
-    const counts = countComponentsByType(components);
-    const summary = formatComponentCount(counts);
-    console.log(`Found ${summary}`);
-  } finally {
-    // Cleanup temp directory if remote scan
-    if (tempDir) {
-      await cleanup(tempDir);
-    }
+  // Only components passing the include/exclude filter would be installed
+  const matchingComponents = filter ? applyComponentFilter(components, filter) : components;
+
+  // Display components (matching install output format)
+  for (const component of matchingComponents) {
+    const suffix = component.type === "skill" ? "/" : "";
+    console.log(`  → ${component.type}/${component.targetName}${suffix}`);
+  }
+
+  console.log();
+
+  // Display summary
+  const counts = countComponentsByType(matchingComponents);
+  const summary = formatComponentCount(counts);
+  console.log(`Found ${summary || "no matching components"}`);
+
+  if (filter) {
+    console.log(
+      `Filter ${formatComponentFilter(filter)} excludes ${components.length - matchingComponents.length} of ${components.length} component(s).`,
+    );
   }
 }
 
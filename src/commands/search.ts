@@ -0,0 +1,102 @@
+import { loadConfig } from "../config";
+import { loadMarketplace } from "../marketplace";
+import { getAllInstalledPlugins } from "../registry";
+import type { MarketplacePlugin } from "../types";
+
+export interface SearchOptions {
+  json?: boolean;
+  verbose?: boolean;
+}
+
+export interface SearchResult extends MarketplacePlugin {
+  marketplace: string;
+  installed: boolean;
+}
+
+/**
+ * Searches the cached copies of all added marketplace catalogs.
+ * Every word of the query must match the name, description, keywords or component names.
+ */
+export async function search(query: string, options: SearchOptions) {
+  const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+  const marketplaceNames = Object.keys(loadConfig().marketplaces ?? {}).sort();
+  const installedNames = new Set((await getAllInstalledPlugins()).map((plugin) => plugin.name));
+  const results: SearchResult[] = [];
+  const notFetched: string[] = [];
+
+  for (const marketplaceName of marketplaceNames) {
+    const marketplace = await loadMarketplace(marketplaceName);
+
+    if (!marketplace) {
+      notFetched.push(marketplaceName);
+      continue;
+    }
+
+    for (const plugin of marketplace.plugins) {
+      if (matchesAll(plugin, terms)) {
+        results.push({
+          ...plugin,
+          marketplace: marketplaceName,
+          installed: installedNames.has(plugin.name),
+        });
+      }
+    }
+  }
+
+  if (options.json) {
+    console.log(JSON.stringify(results, null, 2));
+    return;
+  }
+
+  for (const name of notFetched) {
+    console.warn(
+      `Warning: Marketplace ${name} is not cached. Run 'opencode-marketplace marketplace refresh ${name}'.`,
+    );
+  }
+
+  if (marketplaceNames.length === 0) {
+    console.log("No marketplaces added.");
+    console.log("\nAdd one with 'opencode-marketplace marketplace add <source>'.");
+    return;
+  }
+
+  if (results.length === 0) {
+    console.log(`No plugins found matching "${query}".`);
+    return;
+  }
+
+  console.log(
+    `Found ${results.length} plugin${results.length === 1 ? "" : "s"} matching "${query}":\n`,
+  );
+
+  for (const result of results) {
+    console.log(
+      `  ${result.name}@${result.marketplace}${result.version ? ` v${result.version}` : ""}${result.installed ? " [installed]" : ""}`,
+    );
+
+    if (result.description) {
+      console.log(`    ${result.description}`);
+    }
+
+    if (options.verbose) {
+      if (result.keywords?.length) {
+        console.log(`    Keywords: ${result.keywords.join(", ")}`);
+      }
+      if (result.components?.length) {
+        console.log(`    Components: ${result.components.join(", ")}`);
+      }
+      console.log(`    Source: ${result.source}`);
+    }
+  }
+}
+
+function matchesAll(plugin: MarketplacePlugin, terms: string[]): boolean {
+  const fields = [
+    plugin.name,
+    plugin.description ?? "",
+    ...(plugin.keywords ?? []),
+    ...(plugin.components ?? []),
+  ].map((field) => field.toLowerCase());
+
+  return terms.every((term) => fields.some((field) => field.includes(term)));
+}
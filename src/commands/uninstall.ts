@@ -1,13 +1,14 @@
 import { existsSync } from "node:fs";
 import { rm } from "node:fs/promises";
 import { join } from "node:path";
-import { formatComponentCount } from "../format";
+import { formatComponentCount, formatHash } from "../format";
 import { getComponentDir } from "../paths";
 import { getInstalledPlugin, loadRegistry, saveRegistry } from "../registry";
 import type { ComponentType, Scope } from "../types";
 
 export interface UninstallOptions {
   scope: "user" | "project";
+  targetDir?: string;
   verbose?: boolean;
 }
 
@@ -17,89 +18,99 @@ interface DeletionResult {
 }
 
 export async function uninstall(name: string, options: UninstallOptions) {
-  const { scope, verbose } = options;
-
   try {
-    // Step 1: Look up plugin in registry
-    const plugin = await getInstalledPlugin(name, scope);
+    await uninstallPlugin(name, options);
+  } catch (error) {
+    if (error instanceof Error) {
+      console.error(`\nError: ${error.message}`);
+    } else {
+      console.error("\nUnknown error occurred during uninstallation");
+    }
+    process.exit(1);
+  }
+}
+
+/**
+ * Removes a plugin's component files and registry entry.
+ *
+ * @throws Error if the plugin is not installed or a file can't be deleted
+ */
+export async function uninstallPlugin(name: string, options: UninstallOptions): Promise<void> {
+  const { scope, targetDir, verbose } = options;
+
+  // Step 1: Look up plugin in registry
+  const plugin = await getInstalledPlugin(name, scope, targetDir);
 
-    if (!plugin) {
-      throw new Error(`Plugin "${name}" is not installed in ${scope} scope.
+  if (!plugin) {
+    throw new Error(`Plugin "${name}" is not installed in ${scope} scope.
 
 Run 'opencode-marketplace list --scope ${scope}' to see installed plugins.`);
-    }
+  }
 
-    if (verbose) {
-      console.log(`[VERBOSE] Found plugin "${name}" with hash ${plugin.hash}`);
-      console.log(
-        `[VERBOSE] Plugin has ${
-          plugin.components.commands.length +
-          plugin.components.agents.length +
-          plugin.components.skills.length
-        } components to remove`,
-      );
-    }
+  if (verbose) {
+    console.log(`[VERBOSE] Found plugin "${name}" with hash ${plugin.hash}`);
+    console.log(
+      `[VERBOSE] Plugin has ${
+        plugin.components.commands.length +
+        plugin.components.agents.length +
+        plugin.components.skills.length
+      } components to remove`,
+    );
+  }
 
-    // Step 2: Display uninstall message with hash
-    console.log(`Uninstalling ${name} [${plugin.hash.substring(0, 8)}]...`);
+  // Step 2: Display uninstall message with hash
+  console.log(`Uninstalling ${name} [${formatHash(plugin.hash)}]...`);
 
-    // Step 3: Delete all component files/directories
-    const deletionResults: DeletionResult = {
-      deleted: [],
-      alreadyMissing: [],
-    };
+  // Step 3: Delete all component files/directories
+  const deletionResults: DeletionResult = {
+    deleted: [],
+    alreadyMissing: [],
+  };
 
-    // Delete commands
-    for (const command of plugin.components.commands) {
-      await deleteComponent("command", command, scope, verbose ?? false, deletionResults);
-    }
+  // Delete commands
+  for (const command of plugin.components.commands) {
+    await deleteComponent("command", command, scope, targetDir, verbose ?? false, deletionResults);
+  }
 
-    // Delete agents
-    for (const agent of plugin.components.agents) {
-      await deleteComponent("agent", agent, scope, verbose ?? false, deletionResults);
-    }
+  // Delete agents
+  for (const agent of plugin.components.agents) {
+    await deleteComponent("agent", agent, scope, targetDir, verbose ?? false, deletionResults);
+  }
 
-    // Delete skills
-    for (const skill of plugin.components.skills) {
-      await deleteComponent("skill", skill, scope, verbose ?? false, deletionResults);
-    }
+  // Delete skills
+  for (const skill of plugin.components.skills) {
+    await deleteComponent("skill", skill, scope, targetDir, verbose ?? false, deletionResults);
+  }
 
-    // Step 4: Update registry (remove plugin entry)
-    if (verbose) {
-      console.log(`[VERBOSE] Updating registry to remove plugin "${name}"`);
-    }
+  // Step 4: Update registry (remove plugin entry)
+  if (verbose) {
+    console.log(`[VERBOSE] Updating registry to remove plugin "${name}"`);
+  }
 
-    const registry = await loadRegistry(scope);
-    delete registry.plugins[name];
-    await saveRegistry(registry, scope);
+  const registry = await loadRegistry(scope, targetDir);
+  delete registry.plugins[name];
+  await saveRegistry(registry, scope, targetDir);
 
-    if (verbose) {
-      console.log("[VERBOSE] Registry updated successfully");
-    }
+  if (verbose) {
+    console.log("[VERBOSE] Registry updated successfully");
+  }
 
-    // Step 5: Display success message with breakdown
-    const componentCounts = formatComponentCount(plugin.components);
-    console.log(`\nUninstalled ${name} (${componentCounts}) from ${scope} scope.`);
+  // Step 5: Display success message with breakdown
+  const componentCounts = formatComponentCount(plugin.components);
+  const locationMsg = targetDir ? `from ${targetDir}` : `from ${scope} scope`;
+  console.log(`\nUninstalled ${name} (${componentCounts}) ${locationMsg}.`);
 
-    // Step 6: Always show warning if files were missing
-    if (deletionResults.alreadyMissing.length > 0) {
-      console.warn(
-        `\nWarning: ${deletionResults.alreadyMissing.length} component(s) were already deleted.`,
-      );
+  // Step 6: Always show warning if files were missing
+  if (deletionResults.alreadyMissing.length > 0) {
+    console.warn(
+      `\nWarning: ${deletionResults.alreadyMissing.length} component(s) were already deleted.`,
+    );
 
-      if (verbose) {
-        for (const component of deletionResults.alreadyMissing) {
-          console.warn(`  ${component}`);
-        }
+    if (verbose) {
+      for (const component of deletionResults.alreadyMissing) {
+        console.warn(`  ${component}`);
       }
     }
-  } catch (error) {
-    if (error instanceof Error) {
-      console.error(`\nError: ${error.message}`);
-    } else {
-      console.error("\nUnknown error occurred during uninstallation");
-    }
-    process.exit(1);
   }
 }
 
@@ -110,10 +121,11 @@ async function deleteComponent(
   type: ComponentType,
   componentName: string,
   scope: Scope,
+  targetDir: string | undefined,
   verbose: boolean,
   results: DeletionResult,
 ): Promise<void> {
-  const baseDir = getComponentDir(type, scope);
+  const baseDir = getComponentDir(type, scope, targetDir);
   const fullPath = join(baseDir, componentName);
 
   // Remove trailing slash for consistency
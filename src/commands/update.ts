@@ -1,21 +1,43 @@
+import { existsSync } from "node:fs";
 import { discoverComponents } from "../discovery";
-import { cleanup, cloneToTemp } from "../git";
-import { parseGitHubUrl } from "../github";
-import { getInstalledPlugin } from "../registry";
+import { formatCommit, formatHash } from "../format";
+import { getInstalledPlugin, loadRegistry, saveRegistry, withRegistryLock } from "../registry";
 import { computePluginHash } from "../resolution";
+import { formatPluginSource, isRemotePluginSource } from "../source";
+import type { InstalledPlugin, Scope } from "../types";
 import { install } from "./install";
+import { fetchAvailableVersion } from "./outdated";
 
 export interface UpdateOptions {
-  scope: "user" | "project";
+  scope?: Scope; // required for a single plugin; limits --all to one scope
+  all?: boolean;
+  targetDir?: string;
+  include?: string | string[]; // with exclude, replaces the remembered component filter
+  exclude?: string | string[];
   verbose?: boolean;
 }
 
-export async function update(pluginName: string, options: UpdateOptions) {
-  const { scope, verbose } = options;
+type UpdateStatus = "installed" | "updated" | "unchanged";
+
+export async function update(pluginName: string | undefined, options: UpdateOptions) {
+  if (options.all) {
+    if (hasNewFilter(options)) {
+      console.error("\nError: --include and --exclude can only be used to update a single plugin.");
+      process.exit(1);
+    }
+    await updateAll(options);
+    return;
+  }
+
+  const scope = options.scope ?? "user";
 
   try {
+    if (!pluginName) {
+      throw new Error("Specify a plugin name or use --all to update every plugin.");
+    }
+
     // Step 1: Look up plugin in registry
-    const plugin = await getInstalledPlugin(pluginName, scope);
+    const plugin = await getInstalledPlugin(pluginName, scope, options.targetDir);
 
     if (!plugin) {
       throw new Error(
@@ -23,75 +45,230 @@ export async function update(pluginName: string, options: UpdateOptions) {
       );
     }
 
-    // Step 2: Check if it's a remote plugin
-    if (plugin.source.type === "local") {
-      throw new Error(
-        `Cannot update local plugin "${pluginName}". Local plugins must be updated at their source and reinstalled.`,
-      );
+    await updatePlugin(plugin, scope, options);
+  } catch (error) {
+    if (error instanceof Error) {
+      console.error(`\nError: ${error.message}`);
+    } else {
+      console.error("\nUnknown error occurred during update");
     }
+    process.exit(1);
+  }
+}
+
+/**
+ * Updates every plugin in both registries (or one scope), continuing on failures.
+ * Prints a summary and exits non-zero only if an update failed.
+ */
+async function updateAll(options: UpdateOptions) {
+  const scopes: Scope[] = options.scope ? [options.scope] : ["user", "project"];
+  const plugins: { plugin: InstalledPlugin; scope: Scope }[] = [];
 
-    // Step 3: Re-fetch from remote
-    const { url, ref } = plugin.source;
+  for (const scope of scopes) {
+    const registry = await loadRegistry(scope, options.targetDir);
+    const sorted = Object.values(registry.plugins).sort((a, b) => a.name.localeCompare(b.name));
+    plugins.push(...sorted.map((plugin) => ({ plugin, scope })));
+  }
+
+  if (plugins.length === 0) {
+    const scopeText = options.scope ? `${options.scope} scope` : "any scope";
+    console.log(`No plugins installed in ${scopeText}.`);
+    return;
+  }
+
+  const results = {
+    installed: 0,
+    updated: 0,
+    unchanged: 0,
+    skipped: 0, // not checked: archive or unknown source
+    failed: 0,
+  };
+
+  for (let i = 0; i < plugins.length; i++) {
+    const { plugin, scope } = plugins[i];
 
-    console.log(`Fetching ${url}...`);
+    console.log(`[${i + 1}/${plugins.length}] ${plugin.name} (${scope})`);
 
-    const parsed = parseGitHubUrl(url);
-    if (!parsed) {
-      throw new Error(`Invalid GitHub URL in registry: ${url}`);
+    // Archives have no source to re-read; they are replaced by installing a new archive
+    if (plugin.source.type === "archive") {
+      console.log("  Skipped: archive plugins are updated by installing the new archive");
+      results.skipped++;
+      console.log("");
+      continue;
     }
 
-    let tempDir: string | null = null;
+    if (plugin.source.type === "unknown") {
+      console.log("  Skipped: source is unknown; reinstall it from its source with --force");
+      results.skipped++;
+      console.log("");
+      continue;
+    }
 
     try {
-      // Clone repository - use base URL without /tree/ path
-      const repoUrl = `https://github.com/${parsed.owner}/${parsed.repo}.git`;
-      const cloneResult = await cloneToTemp(repoUrl, parsed.ref || ref, parsed.subpath);
-      tempDir = cloneResult.tempDir;
-
-      if (verbose) {
-        console.log(`[VERBOSE] Cloned to ${tempDir}`);
-      }
-
-      // Step 4: Compute new hash
-      const components = await discoverComponents(cloneResult.pluginPath, pluginName);
-      const newHash = await computePluginHash(components);
-
-      // Step 5: Check if already up to date
-      if (newHash === plugin.hash) {
-        console.log(`\nPlugin ${pluginName} is already up to date [${newHash.substring(0, 8)}].`);
-        return;
-      }
-
-      if (verbose) {
-        console.log(
-          `[VERBOSE] Hash changed: ${plugin.hash.substring(0, 8)} → ${newHash.substring(0, 8)}`,
-        );
-      }
-
-      // Step 6: Run install flow (will overwrite existing)
-      // Cleanup temp before install takes over
-      const _pluginPath = cloneResult.pluginPath;
-      const tmpToKeep = tempDir;
-      tempDir = null; // Prevent cleanup in finally
-
-      console.log(`\nUpdating ${pluginName}...`);
-
-      // Use install command directly
-      await install(url, { scope, force: true, verbose });
-
-      // Cleanup after install
-      await cleanup(tmpToKeep);
-    } finally {
-      if (tempDir) {
-        await cleanup(tempDir);
-      }
-    }
-  } catch (error) {
-    if (error instanceof Error) {
-      console.error(`\nError: ${error.message}`);
-    } else {
-      console.error("\nUnknown error occurred during update");
+      const status = await updatePlugin(plugin, scope, options);
+      results[status]++;
+    } catch (error) {
+      results.failed++;
+      console.error(`  Error: ${error instanceof Error ? error.message : String(error)}`);
     }
+    console.log(""); // Empty line between plugins
+  }
+
+  console.log("Update complete:");
+  console.log(`  Installed: ${results.installed}`);
+  console.log(`  Updated:   ${results.updated}`);
+  console.log(`  Unchanged: ${results.unchanged}`);
+  console.log(`  Skipped:   ${results.skipped}`);
+  console.log(`  Failed:    ${results.failed}`);
+
+  if (results.failed > 0) {
     process.exit(1);
   }
 }
+
+/**
+ * Re-reads a plugin from its source and reinstalls it if its content changed.
+ *
+ * @throws Error if the plugin can't be updated from its source
+ */
+async function updatePlugin(
+  plugin: InstalledPlugin,
+  scope: Scope,
+  options: UpdateOptions,
+): Promise<UpdateStatus> {
+  // Archives can't be re-read; local plugins are re-read from their directory
+  if (plugin.source.type === "archive") {
+    throw new Error(
+      `Cannot update archive plugin "${plugin.name}". Install the new archive to replace it.`,
+    );
+  }
+
+  // Entries rebuilt by `registry repair` without a backup don't know where they came from
+  if (plugin.source.type === "unknown") {
+    throw new Error(
+      `Source of plugin "${plugin.name}" is unknown. Reinstall it from its source with --force.`,
+    );
+  }
+
+  if (plugin.source.type === "local") {
+    return updateLocalPlugin(plugin, scope, options);
+  }
+
+  return updateRemotePlugin(plugin, scope, options);
+}
+
+/**
+ * Re-fetches a remote plugin and reinstalls it if its content changed.
+ * A new commit with unchanged content only updates the recorded commit.
+ */
+async function updateRemotePlugin(
+  plugin: InstalledPlugin,
+  scope: Scope,
+  options: UpdateOptions,
+): Promise<UpdateStatus> {
+  const { verbose } = options;
+  const targetDir = plugin.targetDir ?? options.targetDir;
+  const pluginName = plugin.name;
+  const sourceUrl = formatPluginSource(plugin.source);
+  const recordedCommit = isRemotePluginSource(plugin.source) ? plugin.source.commit : undefined;
+
+  console.log(`Fetching ${sourceUrl}...`);
+
+  const available = await fetchAvailableVersion(plugin, { verbose });
+
+  if (verbose && recordedCommit !== available.commit) {
+    console.log(
+      `[VERBOSE] Commit: ${recordedCommit ? formatCommit(recordedCommit) : "unknown"} → ${formatCommit(available.commit)}`,
+    );
+  }
+
+  // Check if already up to date (a new filter always reinstalls)
+  if (available.hash === plugin.hash && !hasNewFilter(options)) {
+    // Content is unchanged, but keep the recorded commit accurate
+    if (recordedCommit !== available.commit) {
+      await withRegistryLock(async () => {
+        const registry = await loadRegistry(scope, targetDir);
+        const entry = registry.plugins[pluginName];
+        if (entry) {
+          entry.source = available.source;
+          await saveRegistry(registry, scope, targetDir);
+        }
+      });
+    }
+
+    console.log(
+      `\nPlugin ${pluginName} is already up to date [${available.hash.substring(0, 8)}].`,
+    );
+    return "unchanged";
+  }
+
+  if (verbose) {
+    console.log(
+      `[VERBOSE] Hash changed: ${formatHash(plugin.hash)} → ${available.hash.substring(0, 8)}`,
+    );
+  }
+
+  console.log(`\nUpdating ${pluginName}...`);
+
+  // Run install flow (will overwrite existing)
+  const result = await install(sourceUrl, {
+    scope,
+    force: true,
+    verbose,
+    targetDir,
+    name: plugin.name,
+    include: options.include,
+    exclude: options.exclude,
+  });
+  return result.status === "installed" ? "installed" : "updated";
+}
+
+/**
+ * Re-reads a local plugin from its source directory and reinstalls it if its content changed.
+ */
+async function updateLocalPlugin(
+  plugin: InstalledPlugin,
+  scope: Scope,
+  options: UpdateOptions,
+): Promise<UpdateStatus> {
+  const { verbose } = options;
+  const targetDir = plugin.targetDir ?? options.targetDir;
+  const sourcePath = formatPluginSource(plugin.source);
+
+  console.log(`Checking ${sourcePath}...`);
+
+  if (!existsSync(sourcePath)) {
+    throw new Error(
+      `Source directory of local plugin "${plugin.name}" no longer exists: ${sourcePath}. Reinstall it from its new location or uninstall it.`,
+    );
+  }
+
+  const components = await discoverComponents(sourcePath, plugin.name);
+  const newHash = await computePluginHash(components);
+
+  if (newHash === plugin.hash && !hasNewFilter(options)) {
+    console.log(`\nPlugin ${plugin.name} is already up to date [${newHash.substring(0, 8)}].`);
+    return "unchanged";
+  }
+
+  if (verbose) {
+    console.log(`[VERBOSE] Hash changed: ${formatHash(plugin.hash)} → ${newHash.substring(0, 8)}`);
+  }
+
+  console.log(`\nUpdating ${plugin.name}...`);
+
+  const result = await install(sourcePath, {
+    scope,
+    force: true,
+    verbose,
+    targetDir,
+    name: plugin.name,
+    include: options.include,
+    exclude: options.exclude,
+  });
+  return result.status === "installed" ? "installed" : "updated";
+}
+
+function hasNewFilter(options: UpdateOptions): boolean {
+  return Boolean(options.include || options.exclude);
+}
@@ -0,0 +1,113 @@
+/**
+ * Helpers for running independent tasks (e.g. import entries) side by side
+ */
+
+import { AsyncLocalStorage } from "node:async_hooks";
+
+type ConsoleMethod = "log" | "warn" | "error";
+
+interface TaskOutput {
+  lines: { method: ConsoleMethod; args: unknown[] }[];
+  live: boolean; // printed directly once all earlier tasks' output has been printed
+}
+
+export type Serializer = <T>(task: () => Promise<T>) => Promise<T>;
+
+// Output of the task the current async context belongs to
+const taskOutput = new AsyncLocalStorage<TaskOutput>();
+
+/**
+ * Creates a function that runs the tasks passed to it one at a time, in call order.
+ * A failing task doesn't block the ones queued after it. A task may call the function
+ * again; the nested task runs right away instead of waiting for its caller to finish.
+ */
+export function createSerializer(): Serializer {
+  const running = new AsyncLocalStorage<boolean>();
+  let tail: Promise<unknown> = Promise.resolve();
+
+  return <T>(task: () => Promise<T>): Promise<T> => {
+    if (running.getStore()) {
+      return task();
+    }
+
+    const result = tail.then(() => running.run(true, task));
+    tail = result.catch(() => {});
+    return result;
+  };
+}
+
+/**
+ * Runs tasks with at most `concurrency` of them in flight and returns their results in order.
+ *
+ * Console output of each task is kept together: the earliest unfinished task prints directly,
+ * later ones are buffered and printed as a block once every task before them has finished.
+ * With a concurrency of 1 the output is the same as running the tasks in a loop.
+ *
+ * @throws The error of the first rejected task, once all tasks have settled
+ */
+export async function runConcurrently<T>(
+  tasks: (() => Promise<T>)[],
+  concurrency: number,
+): Promise<T[]> {
+  const outputs: TaskOutput[] = tasks.map(() => ({ lines: [], live: false }));
+  const results: PromiseSettledResult<T>[] = [];
+  const original = { log: console.log, warn: console.warn, error: console.error };
+  let next = 0;
+  let printed = 0;
+
+  const flush = () => {
+    while (printed < tasks.length) {
+      const output = outputs[printed];
+      if (!output.live) {
+        for (const line of output.lines) {
+          original[line.method](...line.args);
+        }
+        output.lines = [];
+        output.live = true;
+      }
+      if (!results[printed]) {
+        break;
+      }
+      printed++;
+    }
+  };
+
+  const worker = async () => {
+    while (next < tasks.length) {
+      const index = next++;
+      try {
+        const value = await taskOutput.run(outputs[index], tasks[index]);
+        results[index] = { status: "fulfilled", value };
+      } catch (reason) {
+        results[index] = { status: "rejected", reason };
+      }
+      flush();
+    }
+  };
+
+  for (const method of ["log", "warn", "error"] as const) {
+    console[method] = (...args: unknown[]) => {
+      const output = taskOutput.getStore();
+      if (output && !output.live) {
+        output.lines.push({ method, args });
+      } else {
+        original[method](...args);
+      }
+    };
+  }
+
+  try {
+    flush();
+    const workerCount = Math.max(1, Math.min(concurrency, tasks.length));
+    await Promise.all(Array.from({ length: workerCount }, worker));
+  } finally {
+    Object.assign(console, original);
+  }
+
+  return results.map((result) => {
+    if (result.status === "rejected") {
+      throw result.reason;
+    }
+    return result.value;
+  });
+}
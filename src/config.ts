@@ -1,7 +1,8 @@
 import { existsSync, readFileSync } from "node:fs";
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
 import { homedir } from "node:os";
-import { join, normalize } from "node:path";
-import type { OcmConfig } from "./types";
+import { dirname, join, normalize } from "node:path";
+import type { MarketplaceConfig, OcmConfig } from "./types";
 
 function getDefaultSkillsBase(): string {
   return join(homedir(), ".agents");
@@ -43,6 +44,10 @@ export function loadConfig(): OcmConfig {
       cachedConfig.skillsPath = normalize(skillsPath);
     }
 
+    if (parsed && typeof parsed === "object" && isMarketplaceMap(parsed.marketplaces)) {
+      cachedConfig.marketplaces = parsed.marketplaces;
+    }
+
     return cachedConfig;
   } catch {
     cachedConfig = {};
@@ -50,6 +55,47 @@ export function loadConfig(): OcmConfig {
   }
 }
 
+/**
+ * Saves the registered marketplaces to the config file, preserving other settings.
+ * Uses atomic write pattern.
+ */
+export async function saveMarketplaces(
+  marketplaces: Record<string, MarketplaceConfig>,
+): Promise<void> {
+  const configPath = getConfigPath();
+  let raw: Record<string, unknown> = {};
+
+  if (existsSync(configPath)) {
+    try {
+      const parsed = JSON.parse(await readFile(configPath, "utf-8"));
+      if (parsed && typeof parsed === "object" && !Array.isArray(parsed)) {
+        raw = parsed;
+      }
+    } catch {
+      throw new Error(`Cannot update ${configPath}: file is not valid JSON`);
+    }
+  }
+
+  raw.marketplaces = marketplaces;
+
+  await mkdir(dirname(configPath), { recursive: true });
+  const tmpPath = `${configPath}.tmp`;
+  await writeFile(tmpPath, JSON.stringify(raw, null, 2), "utf-8");
+  await rename(tmpPath, configPath);
+
+  cachedConfig = null;
+}
+
+function isMarketplaceMap(value: unknown): value is Record<string, MarketplaceConfig> {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    return false;
+  }
+
+  return Object.values(value).every(
+    (entry) => entry && typeof entry === "object" && typeof entry.source === "string",
+  );
+}
+
 export function resolveUserSkillsPath(): string {
   if (agentsOverride) {
     return join(getDefaultSkillsBase(), "skills");
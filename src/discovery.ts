@@ -1,6 +1,6 @@
 import { existsSync } from "node:fs";
 import { readdir, stat } from "node:fs/promises";
-import { join } from "node:path";
+import { join, relative } from "node:path";
 import type { ComponentType, DiscoveredComponent } from "./types";
 import { getComponentTargetName } from "./types";
 
@@ -30,6 +30,46 @@ export async function discoverComponents(
   return components;
 }
 
+/**
+ * Finds plugin folders of a repository that holds several plugins.
+ * Looks at `plugins/*` and top-level folders; a folder is a plugin if it has a
+ * plugin.json or components of its own. Returns an empty list when the root
+ * itself has components.
+ *
+ * @returns Plugin folders relative to the root, sorted
+ */
+export async function discoverPluginDirectories(pluginRoot: string): Promise<string[]> {
+  if (await hasComponents(pluginRoot)) {
+    return [];
+  }
+
+  const found: string[] = [];
+
+  for (const parent of [join(pluginRoot, "plugins"), pluginRoot]) {
+    if (!existsSync(parent)) {
+      continue;
+    }
+
+    for (const entry of await readdir(parent, { withFileTypes: true })) {
+      if (!entry.isDirectory() || entry.name.startsWith(".") || entry.name === "node_modules") {
+        continue;
+      }
+
+      const candidate = join(parent, entry.name);
+      if (existsSync(join(candidate, "plugin.json")) || (await hasComponents(candidate))) {
+        found.push(relative(pluginRoot, candidate));
+      }
+    }
+  }
+
+  return found.sort();
+}
+
+async function hasComponents(root: string): Promise<boolean> {
+  const components = await discoverComponents(root, "plugin");
+  return components.length > 0;
+}
+
 async function discoverType(
   root: string,
   pluginName: string,
@@ -25,3 +25,34 @@ export function formatComponentCount(components: {
 
   return parts.join(", ");
 }
+
+/**
+ * Shortens a content hash for display. Entries recovered by `registry repair` have none.
+ */
+export function formatHash(hash: string): string {
+  return hash ? hash.substring(0, 8) : "unknown";
+}
+
+/**
+ * Shortens a commit SHA for display (git's default abbreviation length).
+ */
+export function formatCommit(commit: string): string {
+  return commit.substring(0, 7);
+}
+
+/**
+ * Formats a byte count for display.
+ * Example: 1536 -> "1.5 KB"
+ */
+export function formatBytes(bytes: number): string {
+  const units = ["B", "KB", "MB", "GB"];
+  let value = bytes;
+  let unit = 0;
+
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+
+  return unit === 0 ? `${value} ${units[unit]}` : `${value.toFixed(1)} ${units[unit]}`;
+}
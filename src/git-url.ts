@@ -0,0 +1,106 @@
+/**
+ * Generic git URL parsing utilities (GitLab, Bitbucket, Gitea, SSH, file://, ...)
+ */
+
+export interface GitSource {
+  url: string; // repository URL as passed to git clone
+  ref?: string; // branch, tag, or commit
+  subpath?: string; // subfolder path
+}
+
+const PROTOCOL_PATTERN = /^(https?|ssh|git|file|git\+ssh|git\+https):\/\//;
+const SCP_PATTERN = /^[^\s/@]+@[^\s/:]+:\S+$/;
+
+/**
+ * Checks if a string looks like a git remote URL.
+ *
+ * Supported forms:
+ * - https://gitlab.com/org/repo.git
+ * - ssh://git@host/org/repo.git
+ * - git@host:org/repo.git
+ * - file:///srv/git/repo.git
+ */
+export function isGitUrl(input: string): boolean {
+  return PROTOCOL_PATTERN.test(input) || SCP_PATTERN.test(input);
+}
+
+/**
+ * Parses a git URL with optional ref and subpath into structured components.
+ *
+ * Syntax: `<url>[#<ref>][:<subpath>]`
+ * - git@gitlab.com:org/repo.git
+ * - git@gitlab.com:org/repo.git#v1.0.0
+ * - https://gitea.example.com/org/mono.git#main:plugins/foo
+ * - file:///srv/git/repo.git#:plugins/foo
+ *
+ * @param input - Git URL to parse
+ * @returns Parsed git source or null if invalid
+ */
+export function parseGitUrl(input: string): GitSource | null {
+  const hashIndex = input.indexOf("#");
+  const url = hashIndex === -1 ? input : input.slice(0, hashIndex);
+  const fragment = hashIndex === -1 ? "" : input.slice(hashIndex + 1);
+
+  if (!isGitUrl(url)) {
+    return null;
+  }
+
+  if (PROTOCOL_PATTERN.test(url)) {
+    try {
+      new URL(url);
+    } catch {
+      return null;
+    }
+  }
+
+  const result: GitSource = { url };
+
+  if (!fragment) {
+    return result;
+  }
+
+  const colonIndex = fragment.indexOf(":");
+  const ref = colonIndex === -1 ? fragment : fragment.slice(0, colonIndex);
+  const subpath = colonIndex === -1 ? "" : fragment.slice(colonIndex + 1);
+  const subpathSegments = subpath.split("/").filter(Boolean);
+
+  // Subpath must stay within the repository
+  if (subpathSegments.includes("..")) {
+    return null;
+  }
+
+  if (ref) {
+    result.ref = ref;
+  }
+
+  if (subpathSegments.length > 0) {
+    result.subpath = subpathSegments.join("/");
+  }
+
+  return result;
+}
+
+/**
+ * Reconstructs a git URL with ref/subpath fragment from parsed components
+ */
+export function buildGitUrl(source: GitSource): string {
+  if (!source.ref && !source.subpath) {
+    return source.url;
+  }
+
+  return `${source.url}#${source.ref ?? ""}${source.subpath ? `:${source.subpath}` : ""}`;
+}
+
+/**
+ * Extracts the repository name from a git URL.
+ * Example: "git@gitlab.com:org/my-plugins.git" -> "my-plugins"
+ */
+export function getGitRepoName(url: string): string {
+  const segments = url
+    .replace(/\/+$/, "")
+    .replace(/\.git$/, "")
+    .split(/[/:]/)
+    .filter(Boolean);
+
+  return segments.pop() || "";
+}
@@ -2,44 +2,301 @@
  * Git operations for cloning remote repositories
  */
 
-import { spawnSync } from "node:child_process";
+import { spawn, spawnSync } from "node:child_process";
 import { randomUUID } from "node:crypto";
-import { rm } from "node:fs/promises";
+import { existsSync } from "node:fs";
+import { mkdir, rename, rm } from "node:fs/promises";
 import { tmpdir } from "node:os";
-import { join } from "node:path";
+import { dirname, join } from "node:path";
+import { getLastFetched, getMirrorPath, recordFetch } from "./cache";
+import { createSerializer, type Serializer } from "./concurrency";
 
 export interface CloneResult {
   tempDir: string; // temp clone location
   pluginPath: string; // actual plugin directory (tempDir + subpath)
+  commit: string; // resolved commit SHA of the checkout
+}
+
+export interface CloneOptions {
+  offline?: boolean; // use only previously fetched data, never touch the network
+}
+
+// Mirrors already fetched by this process; later clones of the same repository reuse them
+const fetchedMirrors = new Set<string>();
+
+// Git operations on one mirror run one at a time; different repositories proceed in parallel
+const mirrorLocks = new Map<string, Serializer>();
+
+let gitVersion: [number, number] | null = null;
+
+/**
+ * Checks if a ref looks like a (possibly abbreviated) commit SHA
+ */
+export function isCommitSha(ref: string): boolean {
+  return /^[0-9a-f]{7,40}$/i.test(ref);
 }
 
 /**
  * Clones a Git repository to a temporary directory.
  *
+ * The repository is fetched into a persistent bare mirror (see cache.ts) and
+ * the requested ref is checked out from there, so repeated clones of the same
+ * repository only transfer new objects. In offline mode, or when fetching
+ * fails, the previously fetched mirror is used as is.
+ *
+ * On git versions with partial clone and sparse checkout support, mirrors are
+ * fetched without file contents and a subpath checkout only materializes (and
+ * downloads) the files under that subpath. Older versions check out everything.
+ *
+ * Clones of one repository run one after another; different repositories can be
+ * cloned in parallel.
+ *
  * @param url - Git repository URL
  * @param ref - Optional branch, tag, or commit to checkout
  * @param subpath - Optional subfolder path within the repository
- * @returns Clone result with temp directory and plugin path
+ * @param options - Clone options
+ * @returns Clone result with temp directory, plugin path and resolved commit
  * @throws Error if clone fails
  */
 export async function cloneToTemp(
   url: string,
   ref?: string,
   subpath?: string,
+  options: CloneOptions = {},
 ): Promise<CloneResult> {
-  // Generate unique temp directory
-  const tempDir = join(tmpdir(), `opencode-plugin-${randomUUID()}`);
+  const { offline = false } = options;
+
+  return withMirrorLock(url, async () => {
+    const mirrorPath = await ensureMirror(url, offline);
+    const commit = await resolveCommit(mirrorPath, url, ref, offline);
+
+    // Generate unique temp directory
+    const tempDir = join(tmpdir(), `opencode-plugin-${randomUUID()}`);
+    const sparse = Boolean(subpath) && supportsSparseCheckout();
+
+    // Forget worktrees whose temp directories were already removed
+    await runGit(["-C", mirrorPath, "worktree", "prune"], "Failed to prune worktrees");
+
+    try {
+      // A worktree shares the mirror's object store, so lazily fetched files stay cached
+      if (sparse && subpath) {
+        await runGit(
+          [
+            "-C",
+            mirrorPath,
+            "worktree",
+            "add",
+            "--quiet",
+            "--no-checkout",
+            "--detach",
+            tempDir,
+            commit,
+          ],
+          "Failed to create worktree",
+        );
+        await runGit(
+          ["-C", tempDir, "sparse-checkout", "set", "--cone", subpath],
+          "Failed to configure sparse checkout",
+        );
+        await runGit(
+          ["-C", tempDir, "reset", "--quiet", "--hard", commit],
+          `Failed to checkout ${commit}`,
+        );
+      } else {
+        await runGit(
+          ["-C", mirrorPath, "worktree", "add", "--quiet", "--detach", tempDir, commit],
+          `Failed to checkout ${commit}`,
+        );
+      }
+    } catch (error) {
+      await cleanup(tempDir);
+
+      if (offline) {
+        throw new Error(
+          `Files of ${url} at ${commit} have never been fetched. Run the command once without --offline.`,
+        );
+      }
+      throw error;
+    }
+
+    // Determine actual plugin path
+    const pluginPath = subpath ? join(tempDir, subpath) : tempDir;
+
+    return { tempDir, pluginPath, commit };
+  });
+}
+
+/**
+ * Creates or incrementally fetches the bare mirror for a repository.
+ * Each mirror is fetched at most once per process. If fetching an existing
+ * mirror fails, falls back to the cached data with a warning.
+ *
+ * @param url - Git repository URL
+ * @param offline - Skip fetching and require an existing mirror
+ * @returns Path to the bare mirror
+ */
+export async function ensureMirror(url: string, offline = false): Promise<string> {
+  const mirrorPath = getMirrorPath(url);
+
+  if (fetchedMirrors.has(mirrorPath) && existsSync(mirrorPath)) {
+    return mirrorPath;
+  }
+
+  if (offline) {
+    if (!existsSync(mirrorPath)) {
+      throw new Error(
+        `Repository ${url} has never been fetched. Run the command once without --offline.`,
+      );
+    }
+    return mirrorPath;
+  }
+
+  if (existsSync(mirrorPath)) {
+    try {
+      await runGit(
+        ["-C", mirrorPath, "fetch", "--quiet", "--prune", "origin"],
+        "Failed to fetch repository",
+      );
+    } catch (error) {
+      // Network unavailable - continue with previously fetched data
+      const reason = (error instanceof Error ? error.message : String(error)).split("\n")[0];
+      const lastFetched = await getLastFetched(url);
+      console.warn(
+        `Warning: ${reason}\nUsing cached copy of ${url}${lastFetched ? ` (fetched ${lastFetched})` : ""}.`,
+      );
+      fetchedMirrors.add(mirrorPath);
+      return mirrorPath;
+    }
+  } else {
+    // Clone next to the final location and rename, so an interrupted clone never looks valid
+    const pendingPath = `${mirrorPath}.pending-${randomUUID()}`;
+    await mkdir(dirname(mirrorPath), { recursive: true });
+
+    // Partial clone: fetch commits and trees now, file contents on checkout
+    const args = ["clone", "--quiet", "--mirror"];
+    if (supportsSparseCheckout()) {
+      args.push("--filter=blob:none");
+    }
+    args.push(url, pendingPath);
+
+    try {
+      await runGit(args, "Failed to clone repository");
+      await rename(pendingPath, mirrorPath);
+    } finally {
+      await rm(pendingPath, { recursive: true, force: true });
+    }
+  }
+
+  await recordFetch(url);
+  fetchedMirrors.add(mirrorPath);
+
+  return mirrorPath;
+}
+
+/**
+ * Checks if the installed git supports partial clone and `sparse-checkout set --cone` (2.35+).
+ */
+export function supportsSparseCheckout(): boolean {
+  if (gitVersion === null) {
+    const output = runGitSync(["--version"], "Failed to determine git version");
+    const match = output.match(/(\d+)\.(\d+)/);
+    gitVersion = match ? [Number(match[1]), Number(match[2])] : [0, 0];
+  }
+
+  const [major, minor] = gitVersion;
+  return major > 2 || (major === 2 && minor >= 35);
+}
+
+export function resetFetchedMirrors(): void {
+  fetchedMirrors.clear();
+}
+
+/**
+ * Runs a task while holding the lock of a repository's mirror.
+ */
+function withMirrorLock<T>(url: string, task: () => Promise<T>): Promise<T> {
+  const mirrorPath = getMirrorPath(url);
+  let lock = mirrorLocks.get(mirrorPath);
+  if (!lock) {
+    lock = createSerializer();
+    mirrorLocks.set(mirrorPath, lock);
+  }
+  return lock(task);
+}
+
+/**
+ * Resolves a branch, tag, or commit to a full commit SHA within the mirror.
+ * Defaults to the remote's default branch.
+ */
+async function resolveCommit(
+  mirrorPath: string,
+  url: string,
+  ref?: string,
+  offline = false,
+): Promise<string> {
+  const commit = await revParse(mirrorPath, ref ?? "HEAD");
+  if (commit) {
+    return commit;
+  }
+
+  if (offline) {
+    throw new Error(
+      `Ref "${ref ?? "HEAD"}" of ${url} has never been fetched. Run the command once without --offline.`,
+    );
+  }
+
+  // Commits not reachable from any ref must be fetched explicitly
+  if (ref && isCommitSha(ref)) {
+    try {
+      await runGit(["-C", mirrorPath, "fetch", "--quiet", "origin", ref], "Failed to fetch commit");
+      const fetched = await revParse(mirrorPath, ref);
+      if (fetched) {
+        return fetched;
+      }
+    } catch {
+      // Fall through to the error below
+    }
+  }
 
-  // Build git clone command
-  const args = ["clone", "--depth", "1"];
+  throw new Error(`Failed to resolve ref "${ref ?? "HEAD"}" in ${url}`);
+}
+
+async function revParse(repoPath: string, ref: string): Promise<string | null> {
+  const result = await spawnGit([
+    "-C",
+    repoPath,
+    "rev-parse",
+    "--verify",
+    "--quiet",
+    `${ref}^{commit}`,
+  ]);
+
+  return result.status === 0 ? result.stdout.trim() : null;
+}
+
+/**
+ * Runs a git command and returns its trimmed stdout. Doesn't block, so clones
+ * of different repositories can run in parallel.
+ *
+ * @throws Error prefixed with the given message if the command fails
+ */
+async function runGit(args: string[], failureMessage: string): Promise<string> {
+  const result = await spawnGit(args);
 
-  if (ref) {
-    args.push("--branch", ref);
+  if (result.status !== 0) {
+    const errorMessage = result.stderr || result.stdout || "Unknown error";
+    throw new Error(`${failureMessage}: ${errorMessage.trim()}`);
   }
 
-  args.push(url, tempDir);
+  return result.stdout.trim();
+}
 
-  // Execute git clone
+/**
+ * Runs a git command synchronously and returns its trimmed stdout.
+ *
+ * @throws Error prefixed with the given message if the command fails
+ */
+function runGitSync(args: string[], failureMessage: string): string {
   const result = spawnSync("git", args, {
     stdio: ["ignore", "pipe", "pipe"],
     encoding: "utf-8",
@@ -51,13 +308,34 @@ export async function cloneToTemp(
 
   if (result.status !== 0) {
     const errorMessage = result.stderr || result.stdout || "Unknown error";
-    throw new Error(`Failed to clone repository: ${errorMessage.trim()}`);
+    throw new Error(`${failureMessage}: ${errorMessage.trim()}`);
   }
 
-  // Determine actual plugin path
-  const pluginPath = subpath ? join(tempDir, subpath) : tempDir;
+  return result.stdout.trim();
+}
+
+/**
+ * Spawns git and collects its output.
+ *
+ * @throws Error if git can't be started
+ */
+function spawnGit(
+  args: string[],
+): Promise<{ status: number | null; stdout: string; stderr: string }> {
+  return new Promise((resolve, reject) => {
+    const child = spawn("git", args, { stdio: ["ignore", "pipe", "pipe"] });
+    let stdout = "";
+    let stderr = "";
 
-  return { tempDir, pluginPath };
+    child.stdout.setEncoding("utf-8").on("data", (chunk: string) => {
+      stdout += chunk;
+    });
+    child.stderr.setEncoding("utf-8").on("data", (chunk: string) => {
+      stderr += chunk;
+    });
+    child.on("error", (error) => reject(new Error(`Git command failed: ${error.message}`)));
+    child.on("close", (status) => resolve({ status, stdout, stderr }));
+  });
 }
 
 /**
@@ -38,7 +38,9 @@ export function parseGitHubUrl(url: string): GitHubSource | null {
       return null;
     }
 
-    const [owner, repo, ...rest] = pathSegments;
+    const [owner, repoSegment, ...rest] = pathSegments;
+    // Clone URLs carry a .git suffix that isn't part of the repository name
+    const repo = repoSegment.replace(/\.git$/, "");
 
     // Basic case: https://github.com/owner/repo
     if (rest.length === 0) {
@@ -1,9 +1,23 @@
 import { existsSync } from "node:fs";
-import { readFile } from "node:fs/promises";
+import { readFile, rename, writeFile } from "node:fs/promises";
 import { homedir } from "node:os";
-import { dirname, isAbsolute, join, resolve } from "node:path";
-import { isGitHubUrl } from "./github";
-import type { ImportConfig } from "./types";
+import { dirname, isAbsolute, join, relative, resolve } from "node:path";
+import { createComponentFilter } from "./selection";
+import { isRemoteSource, parseMarketplaceReference, withSourceRef } from "./source";
+import { type ImportConfig, type ImportConfigEntry, type Scope, validatePluginName } from "./types";
+
+// Options of an object entry in the `plugins` array
+const ENTRY_KEYS = [
+  "source",
+  "scope",
+  "ref",
+  "plugin",
+  "all",
+  "include",
+  "exclude",
+  "name",
+  "targetDir",
+];
 
 /**
  * Returns the default import config path: ~/.config/opencode/ocm-import.json
@@ -46,25 +60,242 @@ export async function loadImportConfig(configPath: string): Promise<ImportConfig
     throw new Error("Invalid import configuration: 'plugins' must be an array");
   }
 
-  // Resolve relative paths
+  if ("scope" in config && config.scope !== "user" && config.scope !== "project") {
+    throw new Error(`Invalid import configuration: 'scope' must be "user" or "project"`);
+  }
+
   const configDir = dirname(absolutePath);
-  const plugins: string[] = [];
+  const plugins: ImportConfigEntry[] = [];
 
   for (let i = 0; i < config.plugins.length; i++) {
-    const source = config.plugins[i];
-    if (typeof source !== "string" || source.trim() === "") {
-      throw new Error(`Invalid import configuration: 'plugins[${i}]' must be a non-empty string`);
+    plugins.push(parseEntry(config.plugins[i], `plugins[${i}]`, configDir));
+  }
+
+  return "scope" in config ? { scope: config.scope as Scope, plugins } : { plugins };
+}
+
+/**
+ * Converts an import config to the JSON written to disk. Entries with nothing but a source
+ * become plain strings. With a config directory, local paths are written relative to it so
+ * the config can be shared along with the plugins next to it.
+ */
+export function formatImportConfig(config: ImportConfig, configDir?: string): string {
+  const plugins = config.plugins.map((entry) => {
+    const { source, targetDir, ...options } = entry;
+    const formatted: Record<string, unknown> = { source: formatPath(source, configDir) };
+
+    Object.assign(formatted, options);
+    if (targetDir) {
+      formatted.targetDir = formatPath(targetDir, configDir);
     }
 
-    const trimmedSource = source.trim();
+    return Object.keys(formatted).length === 1 ? formatted.source : formatted;
+  });
+
+  return `${JSON.stringify(config.scope ? { scope: config.scope, plugins } : { plugins }, null, 2)}\n`;
+}
+
+/**
+ * Saves an import config with paths relative to its directory.
+ * Uses atomic write pattern.
+ */
+export async function saveImportConfig(config: ImportConfig, configPath: string): Promise<void> {
+  const absolutePath = resolve(configPath);
+  const tmpPath = `${absolutePath}.tmp`;
+  await writeFile(tmpPath, formatImportConfig(config, dirname(absolutePath)), "utf-8");
+  await rename(tmpPath, absolutePath);
+}
 
-    // Resolve relative paths for local sources (not GitHub URLs and not absolute paths)
-    if (!isGitHubUrl(trimmedSource) && !isAbsolute(trimmedSource)) {
-      plugins.push(resolve(configDir, trimmedSource));
-    } else {
-      plugins.push(trimmedSource);
+/**
+ * Validates a plain string or object entry of the `plugins` array.
+ *
+ * @param path - Location of the entry for error messages, e.g. "plugins[2]"
+ */
+function parseEntry(value: unknown, path: string, configDir: string): ImportConfigEntry {
+  if (typeof value === "string") {
+    if (value.trim() === "") {
+      throw new Error(`Invalid import configuration: '${path}' must be a non-empty string`);
     }
+    return { source: resolveSource(value.trim(), configDir) };
+  }
+
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    throw new Error(
+      `Invalid import configuration: '${path}' must be a non-empty string or an object`,
+    );
+  }
+
+  const entry = value as Record<string, unknown>;
+
+  for (const key of Object.keys(entry)) {
+    if (!ENTRY_KEYS.includes(key)) {
+      throw new Error(`Invalid import configuration: '${path}.${key}' is not a known option`);
+    }
+  }
+
+  const source = getString(entry, "source", path);
+  if (!source) {
+    throw new Error(`Invalid import configuration: '${path}.source' must be a non-empty string`);
+  }
+
+  const result: ImportConfigEntry = { source: resolveSource(source, configDir) };
+
+  const ref = getString(entry, "ref", path);
+  if (ref) {
+    const pinned = withSourceRef(source, ref);
+    if (!pinned) {
+      throw new Error(
+        `Invalid import configuration: '${path}.ref' requires a remote source without a ref`,
+      );
+    }
+    result.source = pinned;
+  }
+
+  if (entry.scope !== undefined) {
+    if (entry.scope !== "user" && entry.scope !== "project") {
+      throw new Error(`Invalid import configuration: '${path}.scope' must be "user" or "project"`);
+    }
+    result.scope = entry.scope;
+  }
+
+  // Plugins of a multi-plugin source; import never asks which ones to install
+  const plugins = getStrings(entry, "plugin", path);
+  if (plugins) {
+    const invalid = plugins.findIndex((plugin) => !validatePluginName(plugin));
+    if (invalid !== -1) {
+      throw new Error(
+        `Invalid import configuration: '${path}.plugin[${invalid}]' must be lowercase alphanumeric with hyphens`,
+      );
+    }
+    result.plugin = plugins;
+  }
+
+  if (entry.all !== undefined) {
+    if (typeof entry.all !== "boolean") {
+      throw new Error(`Invalid import configuration: '${path}.all' must be true or false`);
+    }
+    if (entry.all && plugins) {
+      throw new Error(`Invalid import configuration: '${path}' can't set both 'plugin' and 'all'`);
+    }
+    if (entry.all) {
+      result.all = true;
+    }
+  }
+
+  for (const key of ["include", "exclude"] as const) {
+    const patterns = getPatterns(entry, key, path);
+    if (patterns) {
+      result[key] = patterns;
+    }
+  }
+
+  const name = getString(entry, "name", path);
+  if (name) {
+    if (!validatePluginName(name)) {
+      throw new Error(
+        `Invalid import configuration: '${path}.name' must be lowercase alphanumeric with hyphens`,
+      );
+    }
+    result.name = name;
+  }
+
+  const targetDir = getString(entry, "targetDir", path);
+  if (targetDir) {
+    result.targetDir = resolve(configDir, targetDir);
+  }
+
+  return result;
+}
+
+/**
+ * Resolves relative paths for local sources (not remote URLs, marketplace references,
+ * or absolute paths) against the config directory.
+ */
+function resolveSource(source: string, configDir: string): string {
+  if (isRemoteSource(source) || parseMarketplaceReference(source) || isAbsolute(source)) {
+    return source;
+  }
+  return resolve(configDir, source);
+}
+
+/**
+ * Returns a local path relative to the config directory ("./plugins/foo", "../foo").
+ * Remote URLs, marketplace references and paths without a config directory are kept as is.
+ */
+function formatPath(path: string, configDir?: string): string {
+  if (!configDir || isRemoteSource(path) || parseMarketplaceReference(path)) {
+    return path;
+  }
+
+  const relativePath = relative(configDir, path);
+  if (!relativePath) {
+    return ".";
+  }
+  return relativePath.startsWith("..") || isAbsolute(relativePath)
+    ? relativePath
+    : `./${relativePath}`;
+}
+
+function getString(entry: Record<string, unknown>, key: string, path: string): string | undefined {
+  const value = entry[key];
+
+  if (value === undefined) {
+    return undefined;
+  }
+  if (typeof value !== "string" || value.trim() === "") {
+    throw new Error(`Invalid import configuration: '${path}.${key}' must be a non-empty string`);
+  }
+
+  return value.trim();
+}
+
+function getStrings(
+  entry: Record<string, unknown>,
+  key: string,
+  path: string,
+): string[] | undefined {
+  const value = entry[key];
+
+  if (value === undefined) {
+    return undefined;
+  }
+
+  const strings = typeof value === "string" ? [value] : value;
+  if (!Array.isArray(strings)) {
+    throw new Error(
+      `Invalid import configuration: '${path}.${key}' must be a string or an array of strings`,
+    );
+  }
+
+  strings.forEach((item, index) => {
+    if (typeof item !== "string" || item.trim() === "") {
+      throw new Error(
+        `Invalid import configuration: '${path}.${key}[${index}]' must be a non-empty string`,
+      );
+    }
+  });
+
+  return strings;
+}
+
+function getPatterns(
+  entry: Record<string, unknown>,
+  key: "include" | "exclude",
+  path: string,
+): string[] | undefined {
+  const patterns = getStrings(entry, key, path);
+
+  if (!patterns) {
+    return undefined;
+  }
+
+  try {
+    createComponentFilter(patterns);
+  } catch (error) {
+    throw new Error(
+      `Invalid import configuration: '${path}.${key}': ${error instanceof Error ? error.message : String(error)}`,
+    );
   }
 
-  return { plugins };
+  return patterns;
 }
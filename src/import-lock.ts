@@ -0,0 +1,105 @@
+import { existsSync } from "node:fs";
+import { readFile, rename, writeFile } from "node:fs/promises";
+import { dirname, relative, resolve } from "node:path";
+import { isRemoteSource, parseMarketplaceReference } from "./source";
+import type { ImportConfigEntry, ImportLock } from "./types";
+
+/**
+ * Returns the lockfile path for an import config.
+ * Example: "ocm-import.json" -> "ocm-import.lock.json"
+ */
+export function getImportLockPath(configPath: string): string {
+  const absolutePath = resolve(configPath);
+
+  if (absolutePath.endsWith(".json")) {
+    return `${absolutePath.slice(0, -".json".length)}.lock.json`;
+  }
+
+  return `${absolutePath}.lock.json`;
+}
+
+/**
+ * Returns the lockfile key for a resolved import config entry.
+ * Local paths are stored relative to the config so the lockfile can be shared.
+ * Options picking what gets installed are appended, so entries sharing a source stay apart.
+ * Example: "./plugins (plugin=alpha,beta, scope=project)"
+ */
+export function getImportLockKey(entry: ImportConfigEntry, configPath: string): string {
+  const source = getLockSource(entry.source, configPath);
+  const options: string[] = [];
+
+  if (entry.plugin) options.push(`plugin=${[...entry.plugin].sort().join(",")}`);
+  if (entry.all) options.push("all");
+  if (entry.name) options.push(`name=${entry.name}`);
+  if (entry.scope) options.push(`scope=${entry.scope}`);
+  if (entry.targetDir) options.push(`targetDir=${getLockSource(entry.targetDir, configPath)}`);
+
+  return options.length > 0 ? `${source} (${options.join(", ")})` : source;
+}
+
+function getLockSource(source: string, configPath: string): string {
+  if (isRemoteSource(source) || parseMarketplaceReference(source)) {
+    return source;
+  }
+
+  return relative(dirname(resolve(configPath)), source) || ".";
+}
+
+/**
+ * Loads the import lockfile.
+ * Returns an empty lock if the file does not exist.
+ *
+ * @throws Error if the file is not valid JSON or has an invalid schema
+ */
+export async function loadImportLock(lockPath: string): Promise<ImportLock> {
+  if (!existsSync(lockPath)) {
+    return { version: 1, plugins: {} };
+  }
+
+  const content = await readFile(lockPath, "utf-8");
+  let lock: unknown;
+
+  try {
+    lock = JSON.parse(content);
+  } catch (error) {
+    throw new Error(
+      `Failed to parse import lockfile (invalid JSON): ${error instanceof Error ? error.message : String(error)}`,
+    );
+  }
+
+  if (!lock || typeof lock !== "object" || !("version" in lock) || lock.version !== 1) {
+    throw new Error("Invalid import lockfile: expected version 1");
+  }
+
+  if (!("plugins" in lock) || !lock.plugins || typeof lock.plugins !== "object") {
+    throw new Error("Invalid import lockfile: 'plugins' must be an object");
+  }
+
+  for (const [key, entry] of Object.entries(lock.plugins)) {
+    if (!entry || typeof entry.name !== "string" || typeof entry.hash !== "string") {
+      throw new Error(`Invalid import lockfile: 'plugins["${key}"]' must have a name and hash`);
+    }
+    if (
+      entry.plugins !== undefined &&
+      (!entry.plugins ||
+        typeof entry.plugins !== "object" ||
+        Object.values(entry.plugins).some((hash) => typeof hash !== "string"))
+    ) {
+      throw new Error(
+        `Invalid import lockfile: 'plugins["${key}"].plugins' must map plugin names to hashes`,
+      );
+    }
+  }
+
+  return lock as ImportLock;
+}
+
+/**
+ * Saves the import lockfile.
+ * Uses atomic write pattern.
+ */
+export async function saveImportLock(lock: ImportLock, lockPath: string): Promise<void> {
+  const tmpPath = `${lockPath}.tmp`;
+  await writeFile(tmpPath, JSON.stringify(lock, null, 2), "utf-8");
+  await rename(tmpPath, lockPath);
+}
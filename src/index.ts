@@ -1,7 +1,7 @@
 import { run } from "./cli";
 
 export async function main() {
-  run();
+  await run();
 }
 
 if (import.meta.main) {
@@ -49,6 +49,38 @@ export async function selectComponents(
   }
 }
 
+/**
+ * Presents an interactive multi-select UI for choosing plugins of a multi-plugin source
+ * @param source - Source being installed (for the prompt)
+ * @param pluginNames - Names of the plugins found in the source
+ * @returns Selected plugin names or empty array if cancelled/nothing selected
+ * @throws Error if not running in a TTY
+ */
+export async function selectPlugins(
+  source: string,
+  pluginNames: string[],
+): Promise<{ selected: string[]; cancelled: boolean }> {
+  if (!process.stdin.isTTY) {
+    throw new Error("Interactive mode requires a terminal");
+  }
+
+  try {
+    const selected = await checkbox({
+      message: `Select plugins to install from "${source}":`,
+      choices: pluginNames.map((name) => ({ name, value: name })),
+      pageSize: 15,
+    });
+
+    return { selected, cancelled: false };
+  } catch (error) {
+    // Handle Ctrl+C gracefully
+    if (error instanceof Error && error.message.includes("User force closed")) {
+      return { selected: [], cancelled: true };
+    }
+    throw error;
+  }
+}
+
 interface GroupedComponents {
   commands: DiscoveredComponent[];
   agents: DiscoveredComponent[];
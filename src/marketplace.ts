@@ -0,0 +1,380 @@
+/**
+ * Marketplace catalogs (marketplace.json, compatible with Claude Code's
+ * .claude-plugin/marketplace.json)
+ */
+
+import { existsSync } from "node:fs";
+import { mkdir, readFile, rename, rm, stat, writeFile } from "node:fs/promises";
+import { basename, dirname, join, posix, resolve } from "node:path";
+import { getCacheDir } from "./cache";
+import { loadConfig } from "./config";
+import { cleanup, cloneToTemp } from "./git";
+import { buildGitUrl, isGitUrl } from "./git-url";
+import {
+  isRemoteSource,
+  type MarketplaceReference,
+  parseRemoteSource,
+  type RemoteLocation,
+} from "./source";
+import { type Marketplace, type MarketplacePlugin, validatePluginName } from "./types";
+
+export interface FetchMarketplaceOptions {
+  name?: string; // register under this name instead of the catalog's own
+  offline?: boolean;
+}
+
+export interface FetchMarketplaceResult {
+  marketplace: Marketplace;
+  skipped: string[]; // plugins whose source can't be installed, with the reason
+}
+
+/**
+ * Location relative plugin sources of a catalog are resolved against
+ */
+type CatalogBase =
+  | { type: "local"; dir: string }
+  | { type: "remote"; input: string; location: RemoteLocation };
+
+// Checked in order inside the catalog directory or repository
+const CATALOG_PATHS = [join(".claude-plugin", "marketplace.json"), "marketplace.json"];
+
+const GITHUB_REPO_PATTERN = /^[\w.-]+\/[\w.-]+$/;
+
+/**
+ * Returns the path of the cached copy of a marketplace catalog.
+ */
+export function getMarketplaceCachePath(name: string): string {
+  return join(getCacheDir(), "marketplaces", `${name}.json`);
+}
+
+/**
+ * Fetches and parses a marketplace catalog.
+ *
+ * @param source - Local directory or marketplace.json file, GitHub URL, or git URL
+ * @returns Parsed catalog with plugin sources resolved to install sources
+ * @throws Error if no catalog is found or the catalog is invalid
+ */
+export async function fetchMarketplace(
+  source: string,
+  options: FetchMarketplaceOptions = {},
+): Promise<FetchMarketplaceResult> {
+  let content: string;
+  let base: CatalogBase;
+
+  if (isRemoteSource(source)) {
+    const location = parseRemoteSource(source);
+    if (!location) {
+      throw new Error(`Invalid remote URL: ${source}`);
+    }
+
+    const cloneResult = await cloneToTemp(location.cloneUrl, location.ref, location.subpath, {
+      offline: options.offline,
+    });
+
+    try {
+      content = await readFile(findCatalogFile(cloneResult.pluginPath, source), "utf-8");
+    } finally {
+      await cleanup(cloneResult.tempDir);
+    }
+
+    base = { type: "remote", input: source, location };
+  } else {
+    const absolutePath = resolve(source);
+    if (!existsSync(absolutePath)) {
+      throw new Error(`Marketplace source not found: ${source}`);
+    }
+
+    const catalogPath = (await stat(absolutePath)).isDirectory()
+      ? findCatalogFile(absolutePath, source)
+      : absolutePath;
+
+    // Relative plugin paths are relative to the marketplace root, not .claude-plugin/
+    const catalogDir = dirname(catalogPath);
+    content = await readFile(catalogPath, "utf-8");
+    base = {
+      type: "local",
+      dir: basename(catalogDir) === ".claude-plugin" ? dirname(catalogDir) : catalogDir,
+    };
+  }
+
+  return parseMarketplaceCatalog(content, source, base, options.name);
+}
+
+/**
+ * Loads the cached copy of a marketplace catalog.
+ * Returns null if the catalog was never fetched.
+ */
+export async function loadMarketplace(name: string): Promise<Marketplace | null> {
+  const path = getMarketplaceCachePath(name);
+
+  if (!existsSync(path)) {
+    return null;
+  }
+
+  try {
+    return JSON.parse(await readFile(path, "utf-8"));
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Saves a marketplace catalog to the cache.
+ * Uses atomic write pattern.
+ */
+export async function saveMarketplace(marketplace: Marketplace): Promise<void> {
+  const path = getMarketplaceCachePath(marketplace.name);
+  await mkdir(dirname(path), { recursive: true });
+
+  const tmpPath = `${path}.tmp`;
+  await writeFile(tmpPath, JSON.stringify(marketplace, null, 2), "utf-8");
+  await rename(tmpPath, path);
+}
+
+/**
+ * Removes the cached copy of a marketplace catalog.
+ */
+export async function removeMarketplaceCache(name: string): Promise<void> {
+  await rm(getMarketplaceCachePath(name), { force: true });
+}
+
+/**
+ * Looks up a plugin in a registered marketplace.
+ * The catalog is fetched and cached if it isn't cached yet.
+ *
+ * @throws Error if the marketplace isn't registered or doesn't list the plugin
+ */
+export async function resolveMarketplacePlugin(
+  reference: MarketplaceReference,
+  options: { offline?: boolean } = {},
+): Promise<MarketplacePlugin> {
+  const registered = loadConfig().marketplaces?.[reference.marketplace];
+
+  if (!registered) {
+    throw new Error(
+      `Unknown marketplace "${reference.marketplace}". Add it with 'opencode-marketplace marketplace add <source>'.`,
+    );
+  }
+
+  let marketplace = await loadMarketplace(reference.marketplace);
+
+  if (!marketplace) {
+    const result = await fetchMarketplace(registered.source, {
+      name: reference.marketplace,
+      offline: options.offline,
+    });
+    marketplace = result.marketplace;
+    await saveMarketplace(marketplace);
+  }
+
+  const plugin = marketplace.plugins.find((entry) => entry.name === reference.plugin);
+
+  if (!plugin) {
+    throw new Error(
+      `Plugin "${reference.plugin}" not found in marketplace "${reference.marketplace}".`,
+    );
+  }
+
+  return plugin;
+}
+
+function findCatalogFile(dir: string, source: string): string {
+  for (const relativePath of CATALOG_PATHS) {
+    const candidate = join(dir, relativePath);
+    if (existsSync(candidate)) {
+      return candidate;
+    }
+  }
+
+  throw new Error(`No marketplace.json or .claude-plugin/marketplace.json found in ${source}`);
+}
+
+/**
+ * Validates catalog content and resolves plugin sources.
+ *
+ * @throws Error with the path of the offending field if the catalog is invalid
+ */
+function parseMarketplaceCatalog(
+  content: string,
+  source: string,
+  base: CatalogBase,
+  nameOverride?: string,
+): FetchMarketplaceResult {
+  let catalog: unknown;
+
+  try {
+    catalog = JSON.parse(content);
+  } catch (error) {
+    throw new Error(
+      `Failed to parse marketplace catalog (invalid JSON): ${error instanceof Error ? error.message : String(error)}`,
+    );
+  }
+
+  if (!isObject(catalog)) {
+    throw new Error("Invalid marketplace catalog: expected an object");
+  }
+
+  const name = nameOverride ?? catalog.name;
+  if (typeof name !== "string" || !validatePluginName(name)) {
+    throw new Error(
+      "Invalid marketplace catalog: 'name' must be lowercase alphanumeric with hyphens",
+    );
+  }
+
+  if (!Array.isArray(catalog.plugins)) {
+    throw new Error("Invalid marketplace catalog: 'plugins' must be an array");
+  }
+
+  const pluginRoot =
+    isObject(catalog.metadata) && typeof catalog.metadata.pluginRoot === "string"
+      ? catalog.metadata.pluginRoot
+      : "";
+
+  const plugins: MarketplacePlugin[] = [];
+  const skipped: string[] = [];
+
+  for (let i = 0; i < catalog.plugins.length; i++) {
+    const entry = catalog.plugins[i];
+
+    if (!isObject(entry)) {
+      throw new Error(`Invalid marketplace catalog: 'plugins[${i}]' must be an object`);
+    }
+
+    if (typeof entry.name !== "string" || !validatePluginName(entry.name)) {
+      throw new Error(
+        `Invalid marketplace catalog: 'plugins[${i}].name' must be lowercase alphanumeric with hyphens`,
+      );
+    }
+
+    let pluginSource: string;
+    try {
+      pluginSource = resolvePluginSource(entry.source, base, pluginRoot);
+    } catch (error) {
+      skipped.push(`${entry.name}: ${error instanceof Error ? error.message : String(error)}`);
+      continue;
+    }
+
+    const plugin: MarketplacePlugin = { name: entry.name, source: pluginSource };
+    if (typeof entry.description === "string") plugin.description = entry.description;
+    if (typeof entry.version === "string") plugin.version = entry.version;
+    if (Array.isArray(entry.keywords)) {
+      plugin.keywords = entry.keywords.filter((keyword) => typeof keyword === "string");
+    }
+
+    const components = collectComponentNames(entry);
+    if (components.length > 0) plugin.components = components;
+
+    plugins.push(plugin);
+  }
+
+  return {
+    marketplace: { name, source, refreshedAt: new Date().toISOString(), plugins },
+    skipped,
+  };
+}
+
+/**
+ * Resolves a catalog plugin source to a source string accepted by install.
+ *
+ * Supported forms:
+ * - "./plugins/foo" (relative to the marketplace root and metadata.pluginRoot)
+ * - { source: "github", repo: "owner/repo", ref?, sha? }
+ * - { source: "url", url, ref?, sha? }
+ * - { source: "git-subdir", url, path, ref?, sha? }
+ */
+function resolvePluginSource(source: unknown, base: CatalogBase, pluginRoot: string): string {
+  if (typeof source === "string") {
+    if (base.type === "local") {
+      return resolve(base.dir, pluginRoot, source);
+    }
+
+    const { location } = base;
+    const subpath = posix.join(location.subpath ?? "", pluginRoot, source);
+
+    if (subpath === ".." || subpath.startsWith("../")) {
+      throw new Error(`source "${source}" points outside the marketplace repository`);
+    }
+
+    // The catalog's own URL already points at the repository root
+    if (subpath === "." && !location.ref) {
+      return base.input;
+    }
+
+    return buildGitUrl({
+      url: location.cloneUrl,
+      ref: location.ref,
+      subpath: subpath === "." ? undefined : subpath,
+    });
+  }
+
+  if (!isObject(source) || typeof source.source !== "string") {
+    throw new Error("source must be a relative path or a source object");
+  }
+
+  const ref = typeof source.sha === "string" ? source.sha : stringOrUndefined(source.ref);
+
+  switch (source.source) {
+    case "github": {
+      if (typeof source.repo !== "string" || !GITHUB_REPO_PATTERN.test(source.repo)) {
+        throw new Error('github source requires "repo" in owner/repo form');
+      }
+      return ref
+        ? `https://github.com/${source.repo}/tree/${ref}`
+        : `https://github.com/${source.repo}`;
+    }
+    case "url":
+    case "git-subdir": {
+      const url = toGitUrl(source.url);
+      const subpath = source.source === "git-subdir" ? stringOrUndefined(source.path) : undefined;
+      if (source.source === "git-subdir" && !subpath) {
+        throw new Error('git-subdir source requires "path"');
+      }
+      return buildGitUrl({ url, ref, subpath });
+    }
+    default:
+      throw new Error(`unsupported source type "${source.source}"`);
+  }
+}
+
+/**
+ * Collects component names from the commands/agents/skills paths of a catalog entry.
+ * Example: { commands: ["./commands/review.md"] } -> ["review"]
+ */
+function collectComponentNames(entry: Record<string, unknown>): string[] {
+  const names: string[] = [];
+
+  for (const key of ["commands", "agents", "skills"]) {
+    const value = entry[key];
+    const paths = typeof value === "string" ? [value] : Array.isArray(value) ? value : [];
+
+    for (const path of paths) {
+      if (typeof path === "string") {
+        const name = basename(path).replace(/\.md$/, "");
+        if (name && name !== ".") names.push(name);
+      }
+    }
+  }
+
+  return names;
+}
+
+function toGitUrl(url: unknown): string {
+  if (typeof url === "string" && isGitUrl(url)) {
+    return url;
+  }
+
+  // Claude Code also accepts the GitHub owner/repo shorthand
+  if (typeof url === "string" && GITHUB_REPO_PATTERN.test(url)) {
+    return `https://github.com/${url}.git`;
+  }
+
+  throw new Error(`invalid git URL "${String(url)}"`);
+}
+
+function stringOrUndefined(value: unknown): string | undefined {
+  return typeof value === "string" && value ? value : undefined;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
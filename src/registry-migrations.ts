@@ -0,0 +1,95 @@
+/**
+ * Schema migrations for installed.json
+ *
+ * Each migration upgrades a registry from one version to the next, so a registry of any
+ * older version is brought up to date by running them in order. To change the schema,
+ * bump REGISTRY_VERSION and add a migration from the previous version.
+ */
+
+import { isRemoteSource, parseRemoteSource } from "./source";
+import type { InstalledPlugin, PluginRegistry, PluginSource, Scope } from "./types";
+
+export const REGISTRY_VERSION = 2;
+
+type Migration = (registry: Record<string, unknown>) => Record<string, unknown>;
+
+// Keyed by the version a migration upgrades from
+const migrations: Record<number, Migration> = {
+  1: migrateV1ToV2,
+};
+
+/**
+ * Plugin entry of a v1 registry (see SPEC.md); the name is only the key
+ */
+interface InstalledPluginV1 {
+  scope: Scope;
+  sourcePath: string; // local path or repository URL
+  hash: string;
+  installedAt: string;
+  components: InstalledPlugin["components"];
+}
+
+export interface MigrationResult {
+  registry: PluginRegistry;
+  fromVersion: number; // equals REGISTRY_VERSION if nothing was migrated
+}
+
+/**
+ * Upgrades parsed registry data to the current schema version.
+ *
+ * @throws Error if the version is unknown or newer than this release supports
+ */
+export function migrateRegistry(data: Record<string, unknown>): MigrationResult {
+  const fromVersion = data.version;
+
+  if (typeof fromVersion !== "number" || !Number.isInteger(fromVersion) || fromVersion < 1) {
+    throw new Error(`'version' must be a positive integer, got ${JSON.stringify(fromVersion)}`);
+  }
+
+  if (fromVersion > REGISTRY_VERSION) {
+    throw new Error(
+      `Registry version ${fromVersion} is newer than this release supports (${REGISTRY_VERSION}). Upgrade opencode-marketplace.`,
+    );
+  }
+
+  let registry = data;
+  for (let version = fromVersion; version < REGISTRY_VERSION; version++) {
+    const migration = migrations[version];
+    if (!migration) {
+      throw new Error(`No migration from registry version ${version}`);
+    }
+    registry = { ...migration(registry), version: version + 1 };
+  }
+
+  return { registry: registry as unknown as PluginRegistry, fromVersion };
+}
+
+/**
+ * v2 replaced `sourcePath` with a typed PluginSource and stores the name in each entry.
+ */
+function migrateV1ToV2(registry: Record<string, unknown>): Record<string, unknown> {
+  const plugins = (registry.plugins ?? {}) as Record<string, InstalledPluginV1>;
+  const migrated: Record<string, InstalledPlugin> = {};
+
+  for (const [name, plugin] of Object.entries(plugins)) {
+    if (!plugin || typeof plugin.sourcePath !== "string") {
+      throw new Error(`'plugins["${name}"].sourcePath' must be a string in a v1 registry`);
+    }
+
+    migrated[name] = {
+      name,
+      hash: plugin.hash,
+      scope: plugin.scope,
+      source: getSourceFromPath(plugin.sourcePath),
+      installedAt: plugin.installedAt,
+      components: plugin.components,
+    };
+  }
+
+  return { ...registry, plugins: migrated };
+}
+
+function getSourceFromPath(sourcePath: string): PluginSource {
+  const remote = isRemoteSource(sourcePath) ? parseRemoteSource(sourcePath) : null;
+  return remote ? remote.source : { type: "local", path: sourcePath };
+}
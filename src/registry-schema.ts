@@ -0,0 +1,128 @@
+/**
+ * Schema validation for installed.json (current version, after migrations)
+ */
+
+import type { PluginRegistry } from "./types";
+
+const SOURCE_TYPES = ["local", "archive", "remote", "git", "unknown"];
+
+/**
+ * Checks that registry data has the shape of the current schema.
+ *
+ * @throws Error naming the first invalid field, e.g. `'plugins["foo"].hash' must be a string`
+ */
+export function validateRegistry(data: { plugins?: unknown }): PluginRegistry {
+  const plugins = data.plugins;
+
+  if (!isObject(plugins)) {
+    throw new Error("'plugins' must be an object");
+  }
+
+  for (const [key, value] of Object.entries(plugins)) {
+    const path = `plugins["${key}"]`;
+
+    if (!isObject(value)) {
+      throw new Error(`'${path}' must be an object`);
+    }
+    if (value.name !== key) {
+      throw new Error(`'${path}.name' must be "${key}"`);
+    }
+
+    expectString(value, "hash", path);
+    expectString(value, "installedAt", path);
+    expectString(value, "targetDir", path, true);
+
+    if (value.scope !== "user" && value.scope !== "project") {
+      throw new Error(`'${path}.scope' must be "user" or "project"`);
+    }
+
+    validateSource(value.source, `${path}.source`);
+
+    const components = value.components;
+    if (!isObject(components)) {
+      throw new Error(`'${path}.components' must be an object`);
+    }
+    for (const list of ["commands", "agents", "skills"]) {
+      expectStringArray(components, list, `${path}.components`);
+    }
+
+    // A selection has both lists; a filter may have either
+    for (const [option, lists, optional] of [
+      ["selection", ["included", "excluded"], false],
+      ["filter", ["include", "exclude"], true],
+    ] as const) {
+      const optionValue = value[option];
+      if (optionValue === undefined) {
+        continue;
+      }
+      if (!isObject(optionValue)) {
+        throw new Error(`'${path}.${option}' must be an object`);
+      }
+      for (const list of lists) {
+        expectStringArray(optionValue, list, `${path}.${option}`, optional);
+      }
+    }
+  }
+
+  return data as unknown as PluginRegistry;
+}
+
+function validateSource(source: unknown, path: string): void {
+  if (!isObject(source) || typeof source.type !== "string") {
+    throw new Error(`'${path}' must be an object with a type`);
+  }
+
+  switch (source.type) {
+    case "local":
+      expectString(source, "path", path);
+      break;
+    case "archive":
+      expectString(source, "path", path);
+      expectString(source, "checksum", path);
+      break;
+    case "remote":
+    case "git":
+      expectString(source, "url", path);
+      expectString(source, "ref", path, true);
+      expectString(source, "commit", path, true);
+      if (source.type === "git") {
+        expectString(source, "subpath", path, true);
+      }
+      break;
+    case "unknown":
+      break;
+    default:
+      throw new Error(`'${path}.type' must be one of ${SOURCE_TYPES.join(", ")}`);
+  }
+}
+
+function expectString(
+  object: Record<string, unknown>,
+  key: string,
+  path: string,
+  optional = false,
+): void {
+  const value = object[key];
+  if ((value !== undefined || !optional) && typeof value !== "string") {
+    throw new Error(`'${path}.${key}' must be a string`);
+  }
+}
+
+function expectStringArray(
+  object: Record<string, unknown>,
+  key: string,
+  path: string,
+  optional = false,
+): void {
+  const value = object[key];
+  if (value === undefined && optional) {
+    return;
+  }
+  if (!Array.isArray(value) || value.some((item) => typeof item !== "string")) {
+    throw new Error(`'${path}.${key}' must be an array of strings`);
+  }
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
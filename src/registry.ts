@@ -1,9 +1,22 @@
+import { randomBytes } from "node:crypto";
 import { existsSync } from "node:fs";
-import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import { copyFile, mkdir, readFile, rename, writeFile } from "node:fs/promises";
 import { homedir } from "node:os";
 import { join } from "node:path";
+import { createSerializer } from "./concurrency";
+import { type MigrationResult, migrateRegistry, REGISTRY_VERSION } from "./registry-migrations";
+import { validateRegistry } from "./registry-schema";
 import type { InstalledPlugin, PluginRegistry, Scope } from "./types";
 
+/**
+ * Runs registry read-modify-write sequences one at a time, so parallel installs
+ * (e.g. import --concurrency) don't overwrite each other's entries.
+ */
+export const withRegistryLock = createSerializer();
+
+// Number of previous registry versions kept by saveRegistry
+export const REGISTRY_BACKUPS = 3;
+
 /**
  * Returns the path to the registry file for the given scope.
  */
@@ -16,9 +29,19 @@ export function getRegistryPath(scope: Scope, targetDir?: string): string {
   return join(process.cwd(), ".opencode", "plugins", "installed.json");
 }
 
+/**
+ * Returns the path of a rotating registry backup written by saveRegistry; 1 is the newest.
+ */
+export function getRegistryBackupPath(registryPath: string, index: number): string {
+  return `${registryPath}.bak.${index}`;
+}
+
 /**
  * Loads the plugin registry for the given scope.
- * Returns an empty registry if the file does not exist.
+ * Returns an empty registry if the file does not exist. Registries of older schema
+ * versions are migrated and saved, keeping the original as installed.json.v<n>.bak.
+ *
+ * @throws Error if the file can't be read, parsed or doesn't match the schema
  */
 export async function loadRegistry(scope: Scope, targetDir?: string): Promise<PluginRegistry> {
   const path = getRegistryPath(scope, targetDir);
@@ -27,26 +50,48 @@ export async function loadRegistry(scope: Scope, targetDir?: string): Promise<Pl
     return { version: 2, plugins: {} };
   }
 
-  try {
-    const content = await readFile(path, "utf-8");
-    const registry = JSON.parse(content);
+  const { registry, fromVersion } = await readValidRegistry(path, scope, targetDir);
 
-    // If old v1 registry, warn and return empty
-    if (registry.version === 1) {
-      console.warn("Warning: Registry v1 detected. Please reinstall plugins for v2 compatibility.");
-      return { version: 2, plugins: {} };
-    }
+  if (fromVersion !== REGISTRY_VERSION) {
+    return withRegistryLock(() => migrateRegistryFile(path, scope, targetDir));
+  }
 
-    return registry;
+  return registry;
+}
+
+/**
+ * Reads a registry file, migrating it to the current schema version and validating it.
+ *
+ * @throws Error describing why the file is invalid
+ */
+export async function readRegistryFile(path: string): Promise<MigrationResult> {
+  const content = await readFile(path, "utf-8");
+  let data: unknown;
+
+  try {
+    data = JSON.parse(content);
   } catch (error) {
-    console.error(`Error loading registry from ${path}:`, error);
-    return { version: 2, plugins: {} };
+    throw new Error(`invalid JSON (${error instanceof Error ? error.message : String(error)})`);
+  }
+
+  if (!data || typeof data !== "object" || Array.isArray(data)) {
+    throw new Error("expected an object");
   }
+
+  const { registry, fromVersion } = migrateRegistry(data as Record<string, unknown>);
+  return {
+    registry: validateRegistry(registry),
+    fromVersion,
+  };
 }
 
 /**
  * Saves the plugin registry for the given scope.
- * Uses atomic write pattern.
+ * Uses atomic write pattern. The previous file is kept as the newest of REGISTRY_BACKUPS
+ * rotating backups (installed.json.bak.1 to .bak.<n>).
+ *
+ * @throws Error if the existing file is invalid; it is never overwritten, so nothing
+ *   recorded in it is lost (see `registry repair`)
  */
 export async function saveRegistry(
   registry: PluginRegistry,
@@ -60,7 +105,19 @@ export async function saveRegistry(
     await mkdir(dir, { recursive: true });
   }
 
-  const tmpPath = `${path}.tmp`;
+  if (existsSync(path)) {
+    try {
+      await readRegistryFile(path);
+    } catch (error) {
+      throw new Error(
+        `Refusing to overwrite invalid registry ${path}: ${error instanceof Error ? error.message : String(error)}\n${getRecoveryHint(path, scope, targetDir)}`,
+      );
+    }
+    await rotateBackups(path);
+  }
+
+  // Unique per write, so concurrent saves (even from other processes) never share a tmp file
+  const tmpPath = `${path}.${process.pid}-${randomBytes(4).toString("hex")}.tmp`;
   await writeFile(tmpPath, JSON.stringify(registry, null, 2), "utf-8");
   await rename(tmpPath, path);
 }
@@ -80,17 +137,21 @@ export async function getInstalledPlugin(
 /**
  * Gets all installed plugins. If scope is provided, only from that scope.
  * Otherwise, combines plugins from both scopes.
+ * A target directory replaces the default user scope registry.
  */
-export async function getAllInstalledPlugins(scope?: Scope): Promise<InstalledPlugin[]> {
+export async function getAllInstalledPlugins(
+  scope?: Scope,
+  targetDir?: string,
+): Promise<InstalledPlugin[]> {
   if (scope) {
-    const registry = await loadRegistry(scope);
+    const registry = await loadRegistry(scope, targetDir);
     return Object.values(registry.plugins);
   }
 
   // Combine user and project scopes
   const [userRegistry, projectRegistry] = await Promise.all([
-    loadRegistry("user"),
-    loadRegistry("project"),
+    loadRegistry("user", targetDir),
+    loadRegistry("project", targetDir),
   ]);
 
   // We use a Map to handle potential duplicates (though they should be rare)
@@ -107,3 +168,70 @@ export async function getAllInstalledPlugins(scope?: Scope): Promise<InstalledPl
 
   return Array.from(allPlugins.values());
 }
+
+/**
+ * Reads a registry file, reporting why it is invalid along with how to recover.
+ */
+async function readValidRegistry(
+  path: string,
+  scope: Scope,
+  targetDir?: string,
+): Promise<MigrationResult> {
+  try {
+    return await readRegistryFile(path);
+  } catch (error) {
+    throw new Error(
+      `Invalid registry ${path}: ${error instanceof Error ? error.message : String(error)}\n${getRecoveryHint(path, scope, targetDir)}`,
+    );
+  }
+}
+
+/**
+ * Saves the migrated registry, keeping the original file as installed.json.v<n>.bak.
+ * Must run under the registry lock; the file is read again because a concurrent load
+ * may have migrated it already.
+ */
+async function migrateRegistryFile(
+  path: string,
+  scope: Scope,
+  targetDir?: string,
+): Promise<PluginRegistry> {
+  const { registry, fromVersion } = await readValidRegistry(path, scope, targetDir);
+
+  if (fromVersion === REGISTRY_VERSION) {
+    return registry;
+  }
+
+  // Keep the original file; a rerun never overwrites an earlier backup
+  const backupPath = `${path}.v${fromVersion}.bak`;
+  if (!existsSync(backupPath)) {
+    await copyFile(path, backupPath);
+  }
+  await saveRegistry(registry, scope, targetDir);
+  console.warn(
+    `Migrated registry ${path} from version ${fromVersion} to ${REGISTRY_VERSION} (backup: ${backupPath}).`,
+  );
+
+  return registry;
+}
+
+/**
+ * Shifts the registry backups by one and copies the current file to the newest slot.
+ */
+async function rotateBackups(path: string): Promise<void> {
+  for (let index = REGISTRY_BACKUPS - 1; index >= 1; index--) {
+    const backupPath = getRegistryBackupPath(path, index);
+    if (existsSync(backupPath)) {
+      await rename(backupPath, getRegistryBackupPath(path, index + 1));
+    }
+  }
+  await copyFile(path, getRegistryBackupPath(path, 1));
+}
+
+function getRecoveryHint(path: string, scope: Scope, targetDir?: string): string {
+  const scopeFlag = scope === "project" ? " --scope project" : "";
+  const targetFlag = targetDir && scope === "user" ? ` --target-dir ${targetDir}` : "";
+  const backupPath = getRegistryBackupPath(path, 1);
+  const restore = existsSync(backupPath) ? `, restore a backup (${backupPath})` : "";
+  return `Fix the file${restore}, or run 'opencode-marketplace registry repair${scopeFlag}${targetFlag}' to rebuild it from the installed files.`;
+}
@@ -1,14 +1,31 @@
 import { createHash } from "node:crypto";
 import { readFile } from "node:fs/promises";
 import { join } from "node:path";
-import { parseGitHubUrl } from "./github";
+import { discoverPluginDirectories } from "./discovery";
+import { getGitRepoName } from "./git-url";
 import { readPluginManifest } from "./manifest";
-import { type DiscoveredComponent, validatePluginName } from "./types";
+import {
+  formatPluginSource,
+  getNestedPluginSource,
+  isRemotePluginSource,
+  isRemoteSource,
+  parseRemoteSource,
+} from "./source";
+import { type DiscoveredComponent, type PluginSource, validatePluginName } from "./types";
+
+/**
+ * Plugin found in a subfolder of a repository that holds several plugins
+ */
+export interface NestedPlugin {
+  name: string;
+  path: string; // absolute path to the plugin folder
+  source: PluginSource; // registry record for this plugin
+}
 
 /**
  * Infers plugin name from multiple sources with priority:
  * 1. plugin.json name field if present
- * 2. Derived from GitHub URL (with dot-stripping)
+ * 2. Derived from GitHub or git URL (with dot-stripping)
  * 3. Local directory name (with dot-stripping)
  *
  * @param pluginPath - Absolute path to plugin directory
@@ -30,25 +47,64 @@ export async function inferPluginName(pluginPath: string, originalPath?: string)
   }
 
   // For remote URLs, derive from URL with dot-stripping
-  if (originalPath?.startsWith("https://github.com/")) {
-    const parsed = parseGitHubUrl(originalPath);
-    if (parsed) {
-      const lastPathPart = parsed.subpath?.split("/").filter(Boolean).pop();
-      const name = (lastPathPart || parsed.repo).replace(/^\.+/, "").toLowerCase();
-
-      if (!validatePluginName(name)) {
-        throw new Error(
-          `Invalid plugin name "${name}" derived from URL. Plugin names must be lowercase alphanumeric with hyphens.`,
-        );
-      }
-      return name;
-    }
+  const remoteName = originalPath ? resolveRemotePluginName(originalPath) : null;
+  if (remoteName) {
+    return remoteName;
   }
 
   // Fallback to directory name
   return resolvePluginName(pluginPath);
 }
 
+/**
+ * Derives the plugin name from a remote URL: its subfolder, or else the repository name.
+ * Returns null if the input is not a remote URL.
+ */
+export function resolveRemotePluginName(url: string): string | null {
+  const remote = isRemoteSource(url) ? parseRemoteSource(url) : null;
+  if (!remote) {
+    return null;
+  }
+
+  const lastPathPart = remote.subpath?.split("/").filter(Boolean).pop();
+  const name = (lastPathPart || getGitRepoName(remote.cloneUrl)).replace(/^\.+/, "").toLowerCase();
+
+  if (!validatePluginName(name)) {
+    throw new Error(
+      `Invalid plugin name "${name}" derived from URL. Plugin names must be lowercase alphanumeric with hyphens.`,
+    );
+  }
+  return name;
+}
+
+/**
+ * Resolves the plugins of a repository that holds several plugins (e.g. `plugins/*`).
+ * Returns an empty list for a regular single-plugin source.
+ *
+ * @param pluginPath - Absolute path to the fetched source root
+ * @param source - Registry record of the source root
+ */
+export async function resolveNestedPlugins(
+  pluginPath: string,
+  source: PluginSource,
+): Promise<NestedPlugin[]> {
+  const directories = await discoverPluginDirectories(pluginPath);
+  const plugins: NestedPlugin[] = [];
+
+  for (const directory of directories) {
+    const path = join(pluginPath, directory);
+    const nestedSource = getNestedPluginSource(source, directory);
+    const name = await inferPluginName(
+      path,
+      isRemotePluginSource(nestedSource) ? formatPluginSource(nestedSource) : undefined,
+    );
+
+    plugins.push({ name, path, source: nestedSource });
+  }
+
+  return plugins;
+}
+
 /**
  * Resolves the plugin name from the directory path.
  * Normalizes the name to be lowercase and validates it.
@@ -0,0 +1,155 @@
+/**
+ * Partial installs: include/exclude filters and remembered component selections
+ */
+
+import type {
+  ComponentFilter,
+  ComponentSelection,
+  ComponentType,
+  DiscoveredComponent,
+} from "./types";
+
+const COMPONENT_TYPES: ComponentType[] = ["command", "agent", "skill"];
+
+export interface AppliedSelection {
+  selected: DiscoveredComponent[]; // components to install
+  available: DiscoveredComponent[]; // new upstream components the selection doesn't cover
+}
+
+/**
+ * Returns the identifier a component is remembered by.
+ * Example: command "review.md" -> "command:review", skill "lint" -> "skill:lint"
+ */
+export function getComponentId(component: DiscoveredComponent): string {
+  return `${component.type}:${component.name.replace(/\.md$/, "")}`;
+}
+
+/**
+ * Records which of the discovered components were selected and which were left out.
+ */
+export function createSelection(
+  components: DiscoveredComponent[],
+  selected: DiscoveredComponent[],
+): ComponentSelection {
+  const selectedIds = new Set(selected.map(getComponentId));
+  const ids = components.map(getComponentId).sort();
+
+  return {
+    included: ids.filter((id) => selectedIds.has(id)),
+    excluded: ids.filter((id) => !selectedIds.has(id)),
+  };
+}
+
+/**
+ * Applies a remembered selection to a freshly discovered component set.
+ * Components that were neither included nor excluded before are new upstream; they
+ * are not installed but reported as available.
+ */
+export function applySelection(
+  components: DiscoveredComponent[],
+  selection: ComponentSelection,
+): AppliedSelection {
+  const included = new Set(selection.included);
+  const excluded = new Set(selection.excluded);
+
+  return {
+    selected: components.filter((component) => included.has(getComponentId(component))),
+    available: components.filter((component) => {
+      const id = getComponentId(component);
+      return !included.has(id) && !excluded.has(id);
+    }),
+  };
+}
+
+/**
+ * Builds a component filter from --include/--exclude values, validating every pattern.
+ *
+ * @returns Filter, or undefined if no patterns were given
+ * @throws Error if a pattern is malformed
+ */
+export function createComponentFilter(
+  include?: string | string[],
+  exclude?: string | string[],
+): ComponentFilter | undefined {
+  const filter: ComponentFilter = {};
+
+  if (include) {
+    filter.include = [include].flat();
+  }
+  if (exclude) {
+    filter.exclude = [exclude].flat();
+  }
+
+  for (const pattern of [...(filter.include ?? []), ...(filter.exclude ?? [])]) {
+    validatePattern(pattern);
+  }
+
+  return filter.include || filter.exclude ? filter : undefined;
+}
+
+/**
+ * Keeps the components matching any include pattern (all if there are none)
+ * and no exclude pattern.
+ */
+export function applyComponentFilter(
+  components: DiscoveredComponent[],
+  filter: ComponentFilter,
+): DiscoveredComponent[] {
+  return components.filter((component) => {
+    const id = getComponentId(component);
+    const included =
+      !filter.include || filter.include.some((pattern) => matchesPattern(id, pattern));
+    const excluded = filter.exclude?.some((pattern) => matchesPattern(id, pattern)) ?? false;
+    return included && !excluded;
+  });
+}
+
+/**
+ * Formats a filter for display.
+ * Example: "include command:review*, exclude skill:*"
+ */
+export function formatComponentFilter(filter: ComponentFilter): string {
+  const parts: string[] = [];
+
+  if (filter.include) {
+    parts.push(`include ${filter.include.join(", ")}`);
+  }
+  if (filter.exclude) {
+    parts.push(`exclude ${filter.exclude.join(", ")}`);
+  }
+
+  return parts.join("; ");
+}
+
+/**
+ * Checks a pattern is "<type>:<name>" or a bare "<name>" matching every type.
+ */
+function validatePattern(pattern: string): void {
+  const separator = pattern.indexOf(":");
+  const type = separator === -1 ? "*" : pattern.slice(0, separator);
+  const name = pattern.slice(separator + 1);
+
+  if (!name || (type !== "*" && !COMPONENT_TYPES.includes(type as ComponentType))) {
+    throw new Error(
+      `Invalid component pattern "${pattern}". Use <type>:<name> with type command, agent or skill, e.g. command:review* or skill:*`,
+    );
+  }
+}
+
+/**
+ * Matches a component id against a pattern; "*" and "?" are wildcards.
+ */
+function matchesPattern(id: string, pattern: string): boolean {
+  const qualified = pattern.includes(":") ? pattern : `*:${pattern}`;
+  const source = qualified
+    .replace(/\.md$/, "")
+    .split("")
+    .map((char) => {
+      if (char === "*") return "[^:]*";
+      if (char === "?") return "[^:]";
+      return char.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+    })
+    .join("");
+
+  return new RegExp(`^${source}$`).test(id);
+}
@@ -0,0 +1,166 @@
+/**
+ * Resolution of user-provided plugin sources (local paths, archives, GitHub URLs, git URLs)
+ */
+
+import { join, posix } from "node:path";
+import { buildGitUrl, isGitUrl, parseGitUrl } from "./git-url";
+import { buildGitHubUrl, isGitHubUrl, parseGitHubUrl } from "./github";
+import type { PluginSource, RemotePluginSource } from "./types";
+
+export interface MarketplaceReference {
+  plugin: string;
+  marketplace: string;
+}
+
+export interface RemoteLocation {
+  cloneUrl: string; // URL passed to git clone
+  ref?: string;
+  subpath?: string;
+  label: string; // human-readable repository label for logging
+  source: RemotePluginSource; // registry record for this location
+}
+
+/**
+ * Checks if the input refers to a remote repository rather than a local path
+ */
+export function isRemoteSource(input: string): boolean {
+  return isGitHubUrl(input) || isGitUrl(input);
+}
+
+/**
+ * Parses a `<plugin>@<marketplace>` reference to a plugin listed in a marketplace catalog.
+ *
+ * @returns Reference or null if the input is not a marketplace reference
+ */
+export function parseMarketplaceReference(input: string): MarketplaceReference | null {
+  const match = input.match(/^([a-z0-9-]+)@([a-z0-9-]+)$/);
+  return match ? { plugin: match[1], marketplace: match[2] } : null;
+}
+
+/**
+ * Checks if a registry source was fetched from a repository
+ */
+export function isRemotePluginSource(source: PluginSource): source is RemotePluginSource {
+  return source.type === "remote" || source.type === "git";
+}
+
+/**
+ * Parses a remote source into the clone location and registry record.
+ * GitHub tree URLs are handled as a special case; everything else goes through
+ * the generic `<url>#<ref>:<subpath>` syntax.
+ *
+ * @param input - GitHub URL or git URL
+ * @returns Remote location or null if the URL is invalid
+ */
+export function parseRemoteSource(input: string): RemoteLocation | null {
+  if (isGitHubUrl(input) && !input.includes("#")) {
+    const parsed = parseGitHubUrl(input);
+    if (!parsed) {
+      return null;
+    }
+
+    return {
+      cloneUrl: `https://github.com/${parsed.owner}/${parsed.repo}.git`,
+      ref: parsed.ref,
+      subpath: parsed.subpath,
+      label: `${parsed.owner}/${parsed.repo}`,
+      source: { type: "remote", url: input, ref: parsed.ref },
+    };
+  }
+
+  const parsed = parseGitUrl(input);
+  if (!parsed) {
+    return null;
+  }
+
+  const source: RemotePluginSource = { type: "git", url: parsed.url };
+  if (parsed.ref) source.ref = parsed.ref;
+  if (parsed.subpath) source.subpath = parsed.subpath;
+
+  return {
+    cloneUrl: parsed.url,
+    ref: parsed.ref,
+    subpath: parsed.subpath,
+    label: parsed.url,
+    source,
+  };
+}
+
+/**
+ * Pins a remote source that doesn't name a ref to the given branch, tag or commit.
+ * Example: ("https://github.com/o/r", "v1") -> "https://github.com/o/r/tree/v1"
+ *
+ * @returns Source with the ref, or null if the input is not remote or already has a ref
+ */
+export function withSourceRef(input: string, ref: string): string | null {
+  const remote = parseRemoteSource(input);
+
+  if (!remote || remote.ref) {
+    return null;
+  }
+
+  if (remote.source.type === "remote") {
+    const parsed = parseGitHubUrl(input);
+    return parsed && buildGitHubUrl({ ...parsed, ref });
+  }
+
+  return buildGitUrl({ url: remote.source.url, ref, subpath: remote.subpath });
+}
+
+/**
+ * Formats a registry source back into the string accepted by install/scan
+ */
+export function formatPluginSource(source: PluginSource): string {
+  switch (source.type) {
+    case "local":
+    case "archive":
+      return source.path;
+    case "remote":
+      return source.url;
+    case "git":
+      return buildGitUrl(source);
+    case "unknown":
+      return "unknown";
+  }
+}
+
+/**
+ * Returns the source of a plugin stored in a subfolder of another source,
+ * used for repositories holding several plugins.
+ * Archives and unknown sources can't address a subfolder, so they are returned unchanged.
+ *
+ * @param source - Source of the repository or directory
+ * @param relativePath - Plugin folder relative to the source root (e.g. "plugins/foo")
+ */
+export function getNestedPluginSource(source: PluginSource, relativePath: string): PluginSource {
+  switch (source.type) {
+    case "local":
+      return { type: "local", path: join(source.path, relativePath) };
+    case "archive":
+    case "unknown":
+      return source;
+    case "git":
+      return { ...source, subpath: posix.join(source.subpath ?? "", relativePath) };
+    case "remote": {
+      const parsed = parseGitHubUrl(source.url);
+      if (!parsed) {
+        return source;
+      }
+
+      const subpath = posix.join(parsed.subpath ?? "", relativePath);
+
+      // GitHub tree URLs need a ref to address a subfolder; fall back to the git URL syntax
+      if (!parsed.ref) {
+        const nested: RemotePluginSource = {
+          type: "git",
+          url: `https://github.com/${parsed.owner}/${parsed.repo}.git`,
+          subpath,
+        };
+        if (source.commit) nested.commit = source.commit;
+        return nested;
+      }
+
+      return { ...source, url: buildGitHubUrl({ ...parsed, subpath }) };
+    }
+  }
+}
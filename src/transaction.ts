@@ -0,0 +1,136 @@
+/**
+ * Transactional placement of component files for installs
+ *
+ * New files are staged next to their targets (so the final swap is a same-filesystem
+ * rename) and only moved into place once every copy succeeded. Files they replace, and
+ * files scheduled for removal, are kept as backups until the transaction is committed,
+ * so any failure before that point can restore the previous state.
+ */
+
+import { randomUUID } from "node:crypto";
+import { existsSync } from "node:fs";
+import { cp, mkdir, rename, rm } from "node:fs/promises";
+import { basename, dirname, join } from "node:path";
+
+export interface FileTransaction {
+  id: string;
+  entries: TransactionEntry[];
+}
+
+interface TransactionEntry {
+  targetPath: string;
+  stagedPath?: string; // unset for removals
+  backupPath: string;
+  backedUp: boolean; // previous file was moved to backupPath
+  placed: boolean; // staged file was moved to targetPath
+}
+
+/**
+ * Starts a new, empty transaction.
+ */
+export function createTransaction(): FileTransaction {
+  return { id: randomUUID().slice(0, 8), entries: [] };
+}
+
+/**
+ * Copies a file or directory to a staging location next to its target.
+ * Nothing visible changes until the transaction is applied.
+ */
+export async function stageFile(
+  transaction: FileTransaction,
+  sourcePath: string,
+  targetPath: string,
+): Promise<void> {
+  const stagedPath = getSiblingPath(targetPath, `ocm-new-${transaction.id}`);
+  const entry: TransactionEntry = {
+    targetPath,
+    stagedPath,
+    backupPath: getSiblingPath(targetPath, `ocm-old-${transaction.id}`),
+    backedUp: false,
+    placed: false,
+  };
+
+  // Track the entry before copying so a partial copy is cleaned up on rollback
+  transaction.entries.push(entry);
+
+  await mkdir(dirname(targetPath), { recursive: true });
+  await cp(sourcePath, stagedPath, { recursive: true });
+}
+
+/**
+ * Schedules a file or directory for removal. It is moved aside when the transaction is
+ * applied and only deleted on commit.
+ */
+export function removeFile(transaction: FileTransaction, targetPath: string): void {
+  transaction.entries.push({
+    targetPath,
+    backupPath: getSiblingPath(targetPath, `ocm-old-${transaction.id}`),
+    backedUp: false,
+    placed: false,
+  });
+}
+
+/**
+ * Moves all staged files into place, backing up the files they replace and those scheduled
+ * for removal.
+ *
+ * @throws Error if a file can't be moved; call rollbackTransaction to restore the previous state
+ */
+export async function applyTransaction(transaction: FileTransaction): Promise<void> {
+  for (const entry of transaction.entries) {
+    if (existsSync(entry.targetPath)) {
+      await rename(entry.targetPath, entry.backupPath);
+      entry.backedUp = true;
+    }
+
+    if (entry.stagedPath) {
+      await rename(entry.stagedPath, entry.targetPath);
+      entry.placed = true;
+    }
+  }
+}
+
+/**
+ * Discards the backups of replaced and removed files. Call once the registry reflects the new files.
+ */
+export async function commitTransaction(transaction: FileTransaction): Promise<void> {
+  for (const entry of transaction.entries) {
+    if (entry.backedUp) {
+      await rm(entry.backupPath, { recursive: true, force: true });
+    }
+  }
+}
+
+/**
+ * Removes staged and placed files and restores the backups of replaced files.
+ * Continues past individual failures so as much as possible is restored.
+ */
+export async function rollbackTransaction(transaction: FileTransaction): Promise<void> {
+  for (const entry of [...transaction.entries].reverse()) {
+    try {
+      if (entry.stagedPath) {
+        await rm(entry.stagedPath, { recursive: true, force: true });
+      }
+
+      if (entry.placed) {
+        await rm(entry.targetPath, { recursive: true, force: true });
+      }
+
+      if (entry.backedUp) {
+        await rename(entry.backupPath, entry.targetPath);
+      }
+    } catch (error) {
+      console.error(
+        `Warning: Failed to restore ${entry.targetPath}: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  }
+}
+
+/**
+ * Returns a hidden path next to the target, on the same filesystem.
+ * Example: "/x/commands/p--a.md" -> "/x/commands/.p--a.md.ocm-new-1a2b3c4d"
+ */
+function getSiblingPath(targetPath: string, suffix: string): string {
+  return join(dirname(targetPath), `.${basename(targetPath)}.${suffix}`);
+}
@@ -17,11 +17,38 @@ export interface DiscoveredComponent {
 }
 
 /**
- * Source of a plugin - either local path or remote URL
+ * Source of a plugin fetched from a repository - GitHub URL or generic git remote.
+ * `commit` records the exact SHA that was installed.
+ */
+export type RemotePluginSource =
+  | { type: "remote"; url: string; ref?: string; commit?: string }
+  | { type: "git"; url: string; ref?: string; subpath?: string; commit?: string };
+
+/**
+ * Source of a plugin - local path, local archive, or remote repository.
+ * "unknown" marks entries rebuilt by `registry repair` from installed files alone.
  */
 export type PluginSource =
   | { type: "local"; path: string }
-  | { type: "remote"; url: string; ref?: string };
+  | { type: "archive"; path: string; checksum: string } // checksum: sha256 of the archive
+  | { type: "unknown" }
+  | RemotePluginSource;
+
+/**
+ * Components chosen with `install -i`, by id ("command:review", "skill:lint")
+ */
+export interface ComponentSelection {
+  included: string[];
+  excluded: string[]; // deliberately left out; never installed by update or import
+}
+
+/**
+ * Include/exclude patterns for components, e.g. "command:review*" or "skill:*"
+ */
+export interface ComponentFilter {
+  include?: string[];
+  exclude?: string[];
+}
 
 export interface InstalledPlugin {
   name: string;
@@ -29,6 +56,9 @@ export interface InstalledPlugin {
   scope: Scope;
   source: PluginSource;
   installedAt: string; // ISO 8601 timestamp
+  targetDir?: string; // absolute custom installation directory (--target-dir), if any
+  selection?: ComponentSelection; // set when only some components were installed
+  filter?: ComponentFilter; // --include/--exclude patterns, applied again on update
   components: {
     commands: string[]; // list of installed filenames (prefixed)
     agents: string[]; // list of installed filenames (prefixed)
@@ -45,11 +75,76 @@ export interface PluginRegistry {
  * Configuration for importing multiple plugins at once
  */
 export interface ImportConfig {
-  plugins: string[];
+  scope?: Scope; // default scope of the entries
+  plugins: ImportConfigEntry[];
+}
+
+/**
+ * Plugin entry of an import config. Plain string entries only set `source`.
+ */
+export interface ImportConfigEntry {
+  source: string; // local paths resolved against the config; `ref` already applied
+  scope?: Scope;
+  plugin?: string[]; // plugins to install from a multi-plugin source
+  all?: boolean; // install every plugin of a multi-plugin source
+  include?: string[];
+  exclude?: string[];
+  name?: string; // install under this name instead of the inferred one
+  targetDir?: string; // resolved against the config directory
+}
+
+/**
+ * Resolved state of a single import config entry
+ */
+export interface ImportLockEntry {
+  name: string; // for a multi-plugin source, the installed plugins' names joined by ", "
+  hash: string; // content hash of the plugin, or of all plugins of a multi-plugin source
+  commit?: string; // resolved commit SHA (remote sources only)
+  plugins?: Record<string, string>; // content hash per plugin of a multi-plugin source
+}
+
+/**
+ * Lockfile written next to the import config (ocm-import.lock.json)
+ * Keyed by the config entry's source.
+ */
+export interface ImportLock {
+  version: 1;
+  plugins: Record<string, ImportLockEntry>;
+}
+
+/**
+ * Marketplace catalog registered with `marketplace add` (stored in ocm-config.json)
+ */
+export interface MarketplaceConfig {
+  source: string; // local path, GitHub URL, or git URL of the catalog
+  addedAt: string; // ISO 8601 timestamp
+}
+
+/**
+ * Plugin entry of a marketplace catalog with its source resolved to an install source
+ */
+export interface MarketplacePlugin {
+  name: string;
+  source: string; // local path, GitHub URL, or git URL accepted by install
+  description?: string;
+  version?: string;
+  keywords?: string[];
+  components?: string[]; // command, agent and skill names declared by the catalog entry
+}
+
+/**
+ * Cached copy of a marketplace catalog
+ */
+export interface Marketplace {
+  name: string;
+  source: string;
+  refreshedAt: string; // ISO 8601 timestamp
+  plugins: MarketplacePlugin[];
 }
 
 export interface OcmConfig {
   skillsPath?: string;
+  marketplaces?: Record<string, MarketplaceConfig>;
 }
 
 // Validation & Helpers
@@ -0,0 +1,185 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { spawnSync } from "node:child_process";
+import { existsSync } from "node:fs";
+import { mkdir, readdir, readFile, rm, stat, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { basename, join } from "node:path";
+import { extractToTemp, getArchiveBaseName, isArchivePath } from "../src/archive";
+import { cleanup } from "../src/git";
+import { createTarGz, createZip } from "./helpers";
+
+describe("Archive", () => {
+  const tmpDir = join(process.cwd(), "tests", "tmp-archive");
+
+  beforeAll(async () => {
+    await rm(tmpDir, { recursive: true, force: true });
+    await mkdir(tmpDir, { recursive: true });
+  });
+
+  afterAll(async () => {
+    await rm(tmpDir, { recursive: true, force: true });
+  });
+
+  test("isArchivePath should detect supported extensions", () => {
+    expect(isArchivePath("/dl/plugin.zip")).toBe(true);
+    expect(isArchivePath("/dl/plugin.tar.gz")).toBe(true);
+    expect(isArchivePath("/dl/plugin.TGZ")).toBe(true);
+    expect(isArchivePath("/dl/plugin.tar")).toBe(false);
+    expect(isArchivePath("/dl/plugin")).toBe(false);
+  });
+
+  test("getArchiveBaseName should strip the archive extension", () => {
+    expect(getArchiveBaseName("/dl/my-plugin.tar.gz")).toBe("my-plugin");
+    expect(getArchiveBaseName("/dl/my-plugin.zip")).toBe("my-plugin");
+  });
+
+  test("extractToTemp should use a single top-level folder as plugin root", async () => {
+    const archivePath = join(tmpDir, "bundle.tar.gz");
+    await createTarGz(archivePath, {
+      "my-plugin/command/hello.md": "# Hello",
+      "my-plugin/skill/review/SKILL.md": "# Review",
+    });
+
+    const result = await extractToTemp(archivePath);
+
+    expect(basename(result.pluginPath)).toBe("my-plugin");
+    expect(await readFile(join(result.pluginPath, "command/hello.md"), "utf-8")).toBe("# Hello");
+    expect(result.checksum).toHaveLength(64);
+
+    await cleanup(result.tempDir);
+    expect(existsSync(result.tempDir)).toBe(false);
+  });
+
+  test("extractToTemp should use the archive name without a top-level folder", async () => {
+    const archivePath = join(tmpDir, "flat-plugin.zip");
+    await createZip(archivePath, {
+      "command/hello.md": "# Hello",
+      "agent/helper.md": "# Helper",
+    });
+
+    const result = await extractToTemp(archivePath);
+
+    expect(basename(result.pluginPath)).toBe("flat-plugin");
+    expect(await readFile(join(result.pluginPath, "agent/helper.md"), "utf-8")).toBe("# Helper");
+
+    await cleanup(result.tempDir);
+  });
+
+  test("extractToTemp should reject entries escaping the extraction directory", async () => {
+    const tarPath = join(tmpDir, "evil.tgz");
+    await createTarGz(tarPath, { "plugin/../../evil.md": "# Evil" });
+
+    const zipPath = join(tmpDir, "evil.zip");
+    await createZip(zipPath, { "/etc/evil.md": "# Evil" });
+
+    for (const archivePath of [tarPath, zipPath]) {
+      try {
+        await extractToTemp(archivePath);
+        expect.unreachable("Should have thrown an error");
+      } catch (error) {
+        expect((error as Error).message).toContain("Unsafe path in archive");
+      }
+    }
+  });
+
+  test("extractToTemp should not leave a partial extraction behind for an unsafe entry", async () => {
+    const archivePath = join(tmpDir, "late-escape.tar.gz");
+    await createTarGz(archivePath, {
+      "plugin/command/hello.md": "# Hello",
+      "../escape.md": "# Escape",
+    });
+
+    const listTempDirs = async () =>
+      (await readdir(tmpdir())).filter((name) => name.startsWith("opencode-archive-"));
+    const before = await listTempDirs();
+
+    try {
+      await extractToTemp(archivePath);
+      expect.unreachable("Should have thrown an error");
+    } catch (error) {
+      expect((error as Error).message).toContain("Unsafe path in archive: ../escape.md");
+    }
+
+    expect(await listTempDirs()).toEqual(before);
+  });
+
+  test("extractToTemp should reject archives exceeding the size or entry limits", async () => {
+    // Compresses to a few bytes, like a zip bomb
+    const files = { "command/big.md": "a".repeat(10_000), "command/small.md": "# Small" };
+    const zipPath = join(tmpDir, "bomb.zip");
+    const tarPath = join(tmpDir, "bomb.tar.gz");
+    await createZip(zipPath, files);
+    await createTarGz(tarPath, files);
+
+    for (const archivePath of [zipPath, tarPath]) {
+      try {
+        await extractToTemp(archivePath, { maxSize: 4096 });
+        expect.unreachable("Should have thrown an error");
+      } catch (error) {
+        expect((error as Error).message).toBe(
+          "Archive is too large: extracted files exceed 4.0 KB",
+        );
+      }
+
+      try {
+        await extractToTemp(archivePath, { maxEntries: 1 });
+        expect.unreachable("Should have thrown an error");
+      } catch (error) {
+        expect((error as Error).message).toBe("Archive has too many entries (more than 1)");
+      }
+    }
+
+    const result = await extractToTemp(zipPath, { maxSize: 20_000, maxEntries: 2 });
+    expect(await readFile(join(result.pluginPath, "small.md"), "utf-8")).toBe("# Small");
+    await cleanup(result.tempDir);
+  });
+
+  test("extractToTemp should keep the execute bit of files", async () => {
+    const files = {
+      "my-plugin/skill/lint/scripts/run.sh": "#!/bin/sh",
+      "my-plugin/skill/lint/SKILL.md": "# Lint",
+    };
+    const modes = { "my-plugin/skill/lint/scripts/run.sh": 0o755 };
+    const tarPath = join(tmpDir, "exec.tar.gz");
+    const zipPath = join(tmpDir, "exec.zip");
+    await createTarGz(tarPath, files, modes);
+    await createZip(zipPath, files, modes);
+
+    for (const archivePath of [tarPath, zipPath]) {
+      const result = await extractToTemp(archivePath);
+      const modeOf = async (path: string) =>
+        (await stat(join(result.pluginPath, path))).mode & 0o777;
+
+      expect(await modeOf("skill/lint/scripts/run.sh")).toBe(0o755);
+      expect(await modeOf("skill/lint/SKILL.md")).toBe(0o644);
+
+      await cleanup(result.tempDir);
+    }
+  });
+
+  test("extractToTemp should extract archives created by tar", async () => {
+    const sourceDir = join(tmpDir, "source", "tar-plugin");
+    await mkdir(join(sourceDir, "command"), { recursive: true });
+    await writeFile(join(sourceDir, "command/hello.md"), "# Hello");
+
+    const archivePath = join(tmpDir, "tar-plugin.tar.gz");
+    const result = spawnSync("tar", ["-czf", archivePath, "-C", join(tmpDir, "source"), "."]);
+    expect(result.status).toBe(0);
+
+    const extracted = await extractToTemp(archivePath);
+
+    expect(basename(extracted.pluginPath)).toBe("tar-plugin");
+    expect(existsSync(join(extracted.pluginPath, "command/hello.md"))).toBe(true);
+
+    await cleanup(extracted.tempDir);
+  });
+
+  test("extractToTemp should error on missing archive", async () => {
+    try {
+      await extractToTemp(join(tmpDir, "missing.zip"));
+      expect.unreachable("Should have thrown an error");
+    } catch (error) {
+      expect((error as Error).message).toContain("Archive not found");
+    }
+  });
+});
@@ -0,0 +1,105 @@
+import { afterAll, beforeAll, describe, expect, spyOn, test } from "bun:test";
+import { existsSync } from "node:fs";
+import { readFile, rm } from "node:fs/promises";
+import { join } from "node:path";
+import { getCacheDir, getMirrorPath, listCachedRepos, removeCachedRepos } from "../src/cache";
+import { cacheList } from "../src/commands/cache";
+import { cleanup, cloneToTemp } from "../src/git";
+import { commitFiles, createGitRepo } from "./helpers";
+
+describe("Clone cache", () => {
+  const tmpDir = join(process.cwd(), "tests", "tmp-cache");
+  let firstUrl: string;
+  let secondUrl: string;
+
+  beforeAll(async () => {
+    await rm(tmpDir, { recursive: true, force: true });
+    process.env.XDG_CACHE_HOME = join(tmpDir, "cache");
+
+    firstUrl = await createGitRepo(join(tmpDir, "repos", "first"), {
+      "plugins/a/command/a.md": "# A",
+      "plugins/b/command/b.md": "# B",
+    });
+    secondUrl = await createGitRepo(join(tmpDir, "repos", "second"), {
+      "command/c.md": "# C",
+    });
+  });
+
+  afterAll(async () => {
+    delete process.env.XDG_CACHE_HOME;
+    await rm(tmpDir, { recursive: true, force: true });
+  });
+
+  test("getCacheDir should honor XDG_CACHE_HOME", () => {
+    expect(getCacheDir()).toBe(join(tmpDir, "cache", "opencode-marketplace"));
+  });
+
+  test("getMirrorPath should be stable and include the repository name", () => {
+    expect(getMirrorPath(firstUrl)).toBe(getMirrorPath(firstUrl));
+    expect(getMirrorPath(firstUrl)).not.toBe(getMirrorPath(secondUrl));
+    expect(getMirrorPath("git@gitlab.com:org/my-plugins.git")).toContain("my-plugins-");
+  });
+
+  test("cloneToTemp should create a bare mirror shared by later clones", async () => {
+    const first = await cloneToTemp(firstUrl, "main", "plugins/a");
+    const second = await cloneToTemp(firstUrl, "main", "plugins/b");
+
+    expect(existsSync(join(getMirrorPath(firstUrl), "HEAD"))).toBe(true);
+    expect(await readFile(join(first.pluginPath, "command/a.md"), "utf-8")).toBe("# A");
+    expect(await readFile(join(second.pluginPath, "command/b.md"), "utf-8")).toBe("# B");
+    expect(first.tempDir).not.toBe(second.tempDir);
+
+    await cleanup(first.tempDir);
+    await cleanup(second.tempDir);
+  });
+
+  test("cloneToTemp should resolve commits fetched into an existing mirror", async () => {
+    const repoDir = join(tmpDir, "repos", "second");
+    const initial = await cloneToTemp(secondUrl);
+    await cleanup(initial.tempDir);
+
+    // A new commit is not visible until the mirror is fetched again, but a SHA ref forces a fetch
+    const newCommit = await commitFiles(repoDir, { "command/c.md": "# C2" }, "update");
+    const result = await cloneToTemp(secondUrl, newCommit);
+
+    expect(result.commit).toBe(newCommit);
+    expect(await readFile(join(result.pluginPath, "command/c.md"), "utf-8")).toBe("# C2");
+
+    await cleanup(result.tempDir);
+  });
+
+  test("listCachedRepos should report cached mirrors", async () => {
+    const repos = await listCachedRepos();
+
+    expect(repos.map((repo) => repo.url)).toEqual([firstUrl, secondUrl].sort());
+    expect(repos[0].size).toBeGreaterThan(0);
+    expect(repos[0].lastFetched).toBeDefined();
+  });
+
+  test("cacheList should print cached repositories", async () => {
+    const consoleSpy = spyOn(console, "log");
+
+    await cacheList({});
+
+    const output = consoleSpy.mock.calls.map((call) => call[0]).join("\n");
+    expect(output).toContain("2 repositories");
+    expect(output).toContain(firstUrl);
+
+    consoleSpy.mockRestore();
+  });
+
+  test("removeCachedRepos should remove matching mirrors only", async () => {
+    const removed = await removeCachedRepos("second");
+
+    expect(removed.map((repo) => repo.url)).toEqual([secondUrl]);
+    expect(existsSync(getMirrorPath(secondUrl))).toBe(false);
+    expect(existsSync(getMirrorPath(firstUrl))).toBe(true);
+  });
+
+  test("removeCachedRepos should remove everything without a filter", async () => {
+    await removeCachedRepos();
+
+    expect(await listCachedRepos()).toEqual([]);
+    expect(existsSync(getMirrorPath(firstUrl))).toBe(false);
+  });
+});
@@ -0,0 +1,136 @@
+import {
+  afterAll,
+  afterEach,
+  beforeAll,
+  beforeEach,
+  describe,
+  expect,
+  spyOn,
+  test,
+} from "bun:test";
+import { mkdir, readFile, rm, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import { exportPlugins } from "../../src/commands/export";
+import { importPlugins } from "../../src/commands/import";
+import { install } from "../../src/commands/install";
+import { loadRegistry, saveRegistry } from "../../src/registry";
+import { createGitRepo } from "../helpers";
+
+describe("Export Command", () => {
+  const tmpDir = join(process.cwd(), "tests", "tmp-export-cmd");
+  const pluginsDir = join(tmpDir, "plugins");
+  const targetDir = join(tmpDir, "target");
+  const projectDir = join(tmpDir, "project");
+  const originalCwd = process.cwd;
+
+  beforeAll(async () => {
+    await rm(tmpDir, { recursive: true, force: true });
+    process.env.XDG_CACHE_HOME = join(tmpDir, "cache");
+    await mkdir(join(pluginsDir, "local-plugin", "command"), { recursive: true });
+    await writeFile(join(pluginsDir, "local-plugin", "command/hello.md"), "# Hello");
+    await mkdir(projectDir, { recursive: true });
+  });
+
+  afterAll(async () => {
+    delete process.env.XDG_CACHE_HOME;
+    await rm(tmpDir, { recursive: true, force: true });
+  });
+
+  beforeEach(() => {
+    // Project scope resolves against the test project directory
+    process.cwd = () => projectDir;
+  });
+
+  afterEach(() => {
+    process.cwd = originalCwd;
+  });
+
+  test("should export sources, scopes, names and selections of both registries", async () => {
+    const repoUrl = await createGitRepo(join(tmpDir, "repos", "tools"), {
+      "command/review.md": "# Review",
+      "command/deploy.md": "# Deploy",
+      "skill/lint/SKILL.md": "# Lint",
+    });
+
+    const consoleSpy = spyOn(console, "log");
+
+    await install(`${repoUrl}#main`, { scope: "user", force: false, targetDir });
+    await install(join(pluginsDir, "local-plugin"), {
+      scope: "user",
+      force: false,
+      targetDir,
+      name: "renamed",
+    });
+    await install(repoUrl, { scope: "project", force: false, exclude: "skill:*" });
+
+    // Same registry state as choosing only "review" with install -i
+    const registry = await loadRegistry("user", targetDir);
+    registry.plugins.tools.selection = {
+      included: ["command:review"],
+      excluded: ["command:deploy", "skill:lint"],
+    };
+    await saveRegistry(registry, "user", targetDir);
+
+    const outputPath = join(tmpDir, "exported.json");
+    await exportPlugins(outputPath, { targetDir });
+
+    expect(JSON.parse(await readFile(outputPath, "utf-8"))).toEqual({
+      plugins: [
+        { source: "./plugins/local-plugin", name: "renamed" },
+        { source: `${repoUrl}#main`, include: ["command:review"] },
+        { source: repoUrl, scope: "project", exclude: ["skill:*"] },
+      ],
+    });
+
+    consoleSpy.mockRestore();
+  });
+
+  test("should refuse to overwrite an existing file without --force", async () => {
+    const errorSpy = spyOn(console, "error").mockImplementation(() => {});
+    const exitSpy = spyOn(process, "exit").mockImplementation(() => {
+      throw new Error("process.exit called");
+    });
+
+    try {
+      await exportPlugins(join(tmpDir, "exported.json"), { targetDir });
+    } catch {
+      // process.exit mock throws
+    }
+
+    expect(errorSpy.mock.calls[0][0]).toContain("already exists. Use --force to overwrite it.");
+    expect(exitSpy).toHaveBeenCalledWith(1);
+
+    errorSpy.mockRestore();
+    exitSpy.mockRestore();
+  });
+
+  test("should print a single scope to stdout and reproduce it with import", async () => {
+    const consoleSpy = spyOn(console, "log").mockImplementation(() => {});
+
+    await exportPlugins(undefined, { scope: "user", targetDir });
+
+    const printed = consoleSpy.mock.calls.map((call) => String(call[0])).join("\n");
+    const configPath = join(tmpDir, "printed.json");
+    await writeFile(configPath, printed);
+
+    const otherTarget = join(tmpDir, "other-target");
+    const exitSpy = spyOn(process, "exit").mockImplementation(() => {
+      throw new Error("process.exit called");
+    });
+
+    await importPlugins(configPath, { targetDir: otherTarget, force: false });
+
+    const original = await loadRegistry("user", targetDir);
+    const reproduced = await loadRegistry("user", otherTarget);
+    expect(Object.keys(reproduced.plugins).sort()).toEqual(["renamed", "tools"]);
+    expect(reproduced.plugins.tools.components).toEqual({
+      commands: ["tools--review.md"],
+      agents: [],
+      skills: [],
+    });
+    expect(reproduced.plugins.renamed.hash).toBe(original.plugins.renamed.hash);
+
+    consoleSpy.mockRestore();
+    exitSpy.mockRestore();
+  });
+});
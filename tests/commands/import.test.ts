@@ -1,9 +1,11 @@
 import { afterAll, beforeAll, describe, expect, spyOn, test } from "bun:test";
 import { existsSync } from "node:fs";
-import { mkdir, rm, writeFile } from "node:fs/promises";
+import { mkdir, readFile, rm, writeFile } from "node:fs/promises";
 import { join } from "node:path";
 import { importPlugins } from "../../src/commands/import";
+import { install } from "../../src/commands/install";
 import { loadRegistry } from "../../src/registry";
+import { commitFiles, createGitRepo, git } from "../helpers";
 
 describe("Import Command", () => {
   const tmpDir = join(process.cwd(), "tests", "tmp-import-cmd");
@@ -13,12 +15,14 @@ describe("Import Command", () => {
 
   beforeAll(async () => {
     await rm(tmpDir, { recursive: true, force: true });
+    process.env.XDG_CACHE_HOME = join(tmpDir, "cache");
     await mkdir(tmpDir, { recursive: true });
     await mkdir(pluginsDir, { recursive: true });
     await mkdir(targetDir, { recursive: true });
   });
 
   afterAll(async () => {
+    delete process.env.XDG_CACHE_HOME;
     await rm(tmpDir, { recursive: true, force: true });
   });
 
@@ -181,4 +185,558 @@ describe("Import Command", () => {
     consoleErrorSpy.mockRestore();
     exitSpy.mockRestore();
   });
+
+  test("should pass entry options through to install", async () => {
+    const pluginDir = join(pluginsDir, "options-plugin");
+    const entryTargetDir = join(tmpDir, "entry-target");
+    await mkdir(join(pluginDir, "command"), { recursive: true });
+    await writeFile(join(pluginDir, "command/review.md"), "# Review");
+    await writeFile(join(pluginDir, "command/deploy.md"), "# Deploy");
+
+    const optionsConfigPath = join(tmpDir, "options-config.json");
+    await writeFile(
+      optionsConfigPath,
+      JSON.stringify({
+        plugins: [
+          {
+            source: "./plugins/options-plugin",
+            name: "renamed-plugin",
+            exclude: "command:deploy",
+            targetDir: "./entry-target",
+          },
+        ],
+      }),
+    );
+
+    const consoleSpy = spyOn(console, "log");
+
+    await importPlugins(optionsConfigPath, { targetDir, force: false });
+
+    const output = consoleSpy.mock.calls.map((call) => String(call[0])).join("\n");
+    expect(output).toContain(`[1/1] ${pluginDir} (user, as renamed-plugin)`);
+
+    const registry = await loadRegistry("user", entryTargetDir);
+    expect(registry.plugins["renamed-plugin"].components.commands).toEqual([
+      "renamed-plugin--review.md",
+    ]);
+    expect(registry.plugins["renamed-plugin"].filter).toEqual({ exclude: ["command:deploy"] });
+    expect(existsSync(join(entryTargetDir, "commands/renamed-plugin--review.md"))).toBe(true);
+
+    consoleSpy.mockRestore();
+  });
+
+  test("should preview and prune plugins missing from the config", async () => {
+    const pruneDir = join(tmpDir, "prune");
+    const pruneTargetDir = join(pruneDir, "target");
+    for (const name of ["kept-plugin", "stale-plugin"]) {
+      await mkdir(join(pruneDir, name, "command"), { recursive: true });
+      await writeFile(join(pruneDir, name, "command/run.md"), `# ${name}`);
+    }
+
+    const consoleSpy = spyOn(console, "log");
+    await install(join(pruneDir, "stale-plugin"), {
+      scope: "user",
+      force: false,
+      targetDir: pruneTargetDir,
+    });
+
+    const pruneConfigPath = join(pruneDir, "ocm-import.json");
+    await writeFile(pruneConfigPath, JSON.stringify({ plugins: ["./kept-plugin"] }));
+    consoleSpy.mockClear();
+
+    await importPlugins(pruneConfigPath, {
+      targetDir: pruneTargetDir,
+      force: false,
+      prune: true,
+      dryRun: true,
+    });
+
+    let output = consoleSpy.mock.calls.map((call) => String(call[0])).join("\n");
+    expect(output).toContain("Would install kept-plugin");
+    expect(output).toContain("  Would uninstall stale-plugin");
+    expect(output).toContain("Dry run complete (nothing was changed):");
+    expect(output).toContain("Removed:   1");
+    expect(Object.keys((await loadRegistry("user", pruneTargetDir)).plugins)).toEqual([
+      "stale-plugin",
+    ]);
+    expect(existsSync(join(pruneDir, "ocm-import.lock.json"))).toBe(false);
+
+    consoleSpy.mockClear();
+    await importPlugins(pruneConfigPath, { targetDir: pruneTargetDir, force: false, prune: true });
+
+    output = consoleSpy.mock.calls.map((call) => String(call[0])).join("\n");
+    expect(output).toContain("Uninstalled stale-plugin");
+    expect(output).toContain("Installed: 1");
+    expect(output).toContain("Removed:   1");
+    expect(Object.keys((await loadRegistry("user", pruneTargetDir)).plugins)).toEqual([
+      "kept-plugin",
+    ]);
+    expect(existsSync(join(pruneTargetDir, "commands/stale-plugin--run.md"))).toBe(false);
+
+    consoleSpy.mockRestore();
+  });
+
+  test("should not prune a scope no entry installs into", async () => {
+    const pruneDir = join(tmpDir, "prune-project-only");
+    const projectDir = join(pruneDir, "project");
+    const userTargetDir = join(pruneDir, "user-target");
+    for (const name of ["project-plugin", "user-plugin"]) {
+      await mkdir(join(pruneDir, name, "command"), { recursive: true });
+      await writeFile(join(pruneDir, name, "command/run.md"), `# ${name}`);
+    }
+    await mkdir(projectDir, { recursive: true });
+
+    const originalCwd = process.cwd;
+    process.cwd = () => projectDir;
+    const consoleSpy = spyOn(console, "log");
+
+    try {
+      await install(join(pruneDir, "user-plugin"), {
+        scope: "user",
+        force: false,
+        targetDir: userTargetDir,
+      });
+
+      const pruneConfigPath = join(pruneDir, "ocm-import.json");
+      await writeFile(
+        pruneConfigPath,
+        JSON.stringify({ plugins: [{ source: "./project-plugin", scope: "project" }] }),
+      );
+      consoleSpy.mockClear();
+
+      await importPlugins(pruneConfigPath, {
+        targetDir: userTargetDir,
+        force: false,
+        prune: true,
+      });
+
+      const output = consoleSpy.mock.calls.map((call) => String(call[0])).join("\n");
+      expect(output).toContain("Installed: 1");
+      expect(output).toContain("Removed:   0");
+      expect(Object.keys((await loadRegistry("project")).plugins)).toEqual(["project-plugin"]);
+      expect(Object.keys((await loadRegistry("user", userTargetDir)).plugins)).toEqual([
+        "user-plugin",
+      ]);
+      expect(existsSync(join(userTargetDir, "commands/user-plugin--run.md"))).toBe(true);
+    } finally {
+      process.cwd = originalCwd;
+      consoleSpy.mockRestore();
+    }
+  });
+
+  test("should install into the scope given by the config or --scope", async () => {
+    const scopeDir = join(tmpDir, "scoped");
+    const projectDir = join(scopeDir, "project");
+    await mkdir(join(scopeDir, "scoped-plugin", "command"), { recursive: true });
+    await mkdir(projectDir, { recursive: true });
+    await writeFile(join(scopeDir, "scoped-plugin", "command/run.md"), "# Run");
+
+    const scopeConfigPath = join(scopeDir, "ocm-import.json");
+    await writeFile(
+      scopeConfigPath,
+      JSON.stringify({ scope: "project", plugins: ["./scoped-plugin"] }),
+    );
+
+    const originalCwd = process.cwd;
+    process.cwd = () => projectDir;
+    const consoleSpy = spyOn(console, "log");
+
+    try {
+      await importPlugins(scopeConfigPath, { force: false });
+
+      const output = consoleSpy.mock.calls.map((call) => String(call[0])).join("\n");
+      expect(output).toContain(`[1/1] ${join(scopeDir, "scoped-plugin")} (project)`);
+      expect(output).toContain("Scopes:    project (1)");
+      expect(existsSync(join(projectDir, ".opencode/commands/scoped-plugin--run.md"))).toBe(true);
+      expect((await loadRegistry("project")).plugins["scoped-plugin"].scope).toBe("project");
+
+      // --scope overrides the config's default
+      consoleSpy.mockClear();
+      await importPlugins(scopeConfigPath, {
+        force: false,
+        scope: "user",
+        targetDir,
+        dryRun: true,
+      });
+
+      const preview = consoleSpy.mock.calls.map((call) => String(call[0])).join("\n");
+      expect(preview).toContain(`[1/1] ${join(scopeDir, "scoped-plugin")} (user)`);
+      expect(preview).toContain("Scopes:    user (1)");
+    } finally {
+      process.cwd = originalCwd;
+      consoleSpy.mockRestore();
+    }
+  });
+
+  test("should write lockfile next to config", async () => {
+    const lockDir = join(tmpDir, "lock");
+    const pluginDir = join(lockDir, "locked-plugin");
+    await mkdir(join(pluginDir, "command"), { recursive: true });
+    await writeFile(join(pluginDir, "command/cmd.md"), "# Locked");
+
+    const lockConfigPath = join(lockDir, "ocm-import.json");
+    await writeFile(lockConfigPath, JSON.stringify({ plugins: ["./locked-plugin"] }));
+
+    const consoleSpy = spyOn(console, "log");
+    const exitSpy = spyOn(process, "exit").mockImplementation((code) => {
+      throw new Error(`process.exit called with ${code}`);
+    });
+
+    await importPlugins(lockConfigPath, {
+      targetDir: join(lockDir, "target"),
+      force: false,
+      verbose: false,
+    });
+
+    const lock = JSON.parse(await readFile(join(lockDir, "ocm-import.lock.json"), "utf-8"));
+    expect(lock.version).toBe(1);
+    expect(lock.plugins["locked-plugin"].name).toBe("locked-plugin");
+    expect(lock.plugins["locked-plugin"].hash).toHaveLength(64);
+    expect(lock.plugins["locked-plugin"].commit).toBeUndefined();
+
+    consoleSpy.mockRestore();
+    exitSpy.mockRestore();
+  });
+
+  test("should fail in frozen mode when content differs from lockfile", async () => {
+    const lockDir = join(tmpDir, "lock");
+    await writeFile(join(lockDir, "locked-plugin/command/cmd.md"), "# Changed");
+
+    const consoleSpy = spyOn(console, "log");
+    const consoleErrorSpy = spyOn(console, "error");
+    const exitSpy = spyOn(process, "exit").mockImplementation((code) => {
+      throw new Error(`process.exit called with ${code}`);
+    });
+
+    try {
+      await importPlugins(join(lockDir, "ocm-import.json"), {
+        targetDir: join(lockDir, "target"),
+        force: false,
+        frozen: true,
+        verbose: false,
+      });
+    } catch (e) {
+      expect(e.message).toContain("process.exit called with 1");
+    }
+
+    const output = consoleSpy.mock.calls.map((call) => String(call[0])).join("\n");
+    const errorOutput = consoleErrorSpy.mock.calls.map((call) => String(call[0])).join("\n");
+    expect(output).toContain("Failed:    1");
+    expect(errorOutput).toContain("Content hash mismatch for locked-plugin");
+
+    consoleSpy.mockRestore();
+    consoleErrorSpy.mockRestore();
+    exitSpy.mockRestore();
+  });
+
+  test("should fail in frozen mode without lockfile", async () => {
+    const frozenConfigPath = join(tmpDir, "no-lock.json");
+    await writeFile(frozenConfigPath, JSON.stringify({ plugins: [join(pluginsDir, "plugin1")] }));
+
+    const consoleSpy = spyOn(console, "log");
+    const consoleErrorSpy = spyOn(console, "error");
+    const exitSpy = spyOn(process, "exit").mockImplementation((code) => {
+      throw new Error(`process.exit called with ${code}`);
+    });
+
+    try {
+      await importPlugins(frozenConfigPath, {
+        targetDir,
+        force: false,
+        frozen: true,
+        verbose: false,
+      });
+    } catch (e) {
+      expect(e.message).toContain("process.exit called with 1");
+    }
+
+    const errorOutput = consoleErrorSpy.mock.calls.map((call) => String(call[0])).join("\n");
+    expect(errorOutput).toContain("Lockfile not found");
+
+    consoleSpy.mockRestore();
+    consoleErrorSpy.mockRestore();
+    exitSpy.mockRestore();
+  });
+
+  test("should reuse locked commit for remote plugins", async () => {
+    const repoDir = join(tmpDir, "repos", "remote-plugin");
+    const repoUrl = await createGitRepo(repoDir, { "command/cmd.md": "# Version 1" });
+    const lockedCommit = git(repoDir, "rev-parse", "HEAD");
+
+    const remoteConfigPath = join(tmpDir, "remote-config.json");
+    await writeFile(remoteConfigPath, JSON.stringify({ plugins: [repoUrl] }));
+    const remoteTarget = join(tmpDir, "remote-target");
+
+    const consoleSpy = spyOn(console, "log");
+    const exitSpy = spyOn(process, "exit").mockImplementation((code) => {
+      throw new Error(`process.exit called with ${code}`);
+    });
+
+    await importPlugins(remoteConfigPath, { targetDir: remoteTarget, force: false });
+
+    // Upstream moves on after the lockfile was written
+    await commitFiles(repoDir, { "command/cmd.md": "# Version 2" }, "second");
+
+    consoleSpy.mockClear();
+    await importPlugins(remoteConfigPath, { targetDir: remoteTarget, force: false, frozen: true });
+
+    const output = consoleSpy.mock.calls.map((call) => String(call[0])).join("\n");
+    expect(output).toContain("Skipped:   1");
+
+    const lock = JSON.parse(await readFile(join(tmpDir, "remote-config.lock.json"), "utf-8"));
+    expect(lock.plugins[repoUrl].commit).toBe(lockedCommit);
+    expect(await readFile(join(remoteTarget, "commands/remote-plugin--cmd.md"), "utf-8")).toBe(
+      "# Version 1",
+    );
+
+    consoleSpy.mockRestore();
+    exitSpy.mockRestore();
+  });
+
+  test("should import entries in parallel and keep each entry's output together", async () => {
+    const firstUrl = await createGitRepo(join(tmpDir, "repos", "parallel-a"), {
+      "command/a.md": "# A",
+    });
+    const secondUrl = await createGitRepo(join(tmpDir, "repos", "parallel-b"), {
+      "agent/b.md": "# B",
+    });
+    const localDir = join(pluginsDir, "parallel-local");
+    await mkdir(join(localDir, "command"), { recursive: true });
+    await writeFile(join(localDir, "command/c.md"), "# C");
+
+    const parallelConfigPath = join(tmpDir, "parallel-config.json");
+    await writeFile(
+      parallelConfigPath,
+      JSON.stringify({ plugins: [firstUrl, secondUrl, localDir] }),
+    );
+    const parallelTarget = join(tmpDir, "parallel-target");
+
+    const consoleSpy = spyOn(console, "log");
+    const exitSpy = spyOn(process, "exit").mockImplementation((code) => {
+      throw new Error(`process.exit called with ${code}`);
+    });
+
+    await importPlugins(parallelConfigPath, {
+      targetDir: parallelTarget,
+      force: false,
+      concurrency: 3,
+    });
+
+    const lines = consoleSpy.mock.calls.map((call) => String(call[0]));
+    const indexOf = (text: string) => lines.findIndex((line) => line.includes(text));
+
+    expect(indexOf("[1/3]")).toBeLessThan(indexOf("Installed parallel-a"));
+    expect(indexOf("Installed parallel-a")).toBeLessThan(indexOf("[2/3]"));
+    expect(indexOf("[2/3]")).toBeLessThan(indexOf("Installed parallel-b"));
+    expect(indexOf("Installed parallel-b")).toBeLessThan(indexOf("[3/3]"));
+    expect(indexOf("[3/3]")).toBeLessThan(indexOf("Installed parallel-local"));
+    expect(lines.join("\n")).toContain("Installed: 3");
+
+    const registry = await loadRegistry("user", parallelTarget);
+    expect(Object.keys(registry.plugins).sort()).toEqual([
+      "parallel-a",
+      "parallel-b",
+      "parallel-local",
+    ]);
+
+    const lock = JSON.parse(await readFile(join(tmpDir, "parallel-config.lock.json"), "utf-8"));
+    expect(Object.keys(lock.plugins)).toEqual([firstUrl, secondUrl, "plugins/parallel-local"]);
+
+    consoleSpy.mockRestore();
+    exitSpy.mockRestore();
+  });
+
+  test("should import multi-plugin sources as configured and lock each plugin", async () => {
+    const multiDir = join(tmpDir, "multi-config");
+    for (const name of ["alpha", "beta"]) {
+      await mkdir(join(multiDir, "multi/plugins", name, "command"), { recursive: true });
+      await writeFile(join(multiDir, "multi/plugins", name, "command/run.md"), `# ${name}`);
+    }
+    const multiConfigPath = join(multiDir, "ocm-import.json");
+    const multiTarget = join(multiDir, "target");
+    const lockPath = join(multiDir, "ocm-import.lock.json");
+
+    const consoleSpy = spyOn(console, "log");
+    const consoleErrorSpy = spyOn(console, "error");
+    const exitSpy = spyOn(process, "exit").mockImplementation((code) => {
+      throw new Error(`process.exit called with ${code}`);
+    });
+    const runImport = async (frozen = false) => {
+      consoleSpy.mockClear();
+      consoleErrorSpy.mockClear();
+      try {
+        await importPlugins(multiConfigPath, { targetDir: multiTarget, force: false, frozen });
+      } catch (e) {
+        expect((e as Error).message).toContain("process.exit called with 1");
+      }
+      return {
+        output: consoleSpy.mock.calls.map((call) => String(call[0])).join("\n"),
+        errorOutput: consoleErrorSpy.mock.calls.map((call) => String(call[0])).join("\n"),
+      };
+    };
+
+    // Without a choice the import fails instead of prompting
+    await writeFile(multiConfigPath, JSON.stringify({ plugins: ["./multi"] }));
+    let result = await runImport();
+    expect(result.errorOutput).toContain('contains 2 plugins (alpha, beta). Set "all": true');
+    expect(result.output).toContain("Failed:    1");
+
+    await writeFile(
+      multiConfigPath,
+      JSON.stringify({ plugins: [{ source: "./multi", all: true }] }),
+    );
+    result = await runImport();
+    expect(result.output).toContain("Installed: 1");
+    expect(Object.keys((await loadRegistry("user", multiTarget)).plugins).sort()).toEqual([
+      "alpha",
+      "beta",
+    ]);
+
+    const lock = JSON.parse(await readFile(lockPath, "utf-8"));
+    expect(lock.plugins["multi (all)"].name).toBe("alpha, beta");
+    expect(lock.plugins["multi (all)"].hash).toHaveLength(64);
+    expect(Object.keys(lock.plugins["multi (all)"].plugins)).toEqual(["alpha", "beta"]);
+
+    result = await runImport(true);
+    expect(result.output).toContain("Skipped:   1");
+    expect(result.output).toContain("Failed:    0");
+
+    await writeFile(join(multiDir, "multi/plugins/alpha/command/run.md"), "# Changed");
+    result = await runImport(true);
+    expect(result.errorOutput).toContain("Content hash mismatch for alpha");
+    expect(result.output).toContain("Failed:    1");
+
+    consoleSpy.mockRestore();
+    consoleErrorSpy.mockRestore();
+    exitSpy.mockRestore();
+  });
+
+  test("should lock entries sharing a source separately", async () => {
+    const sharedDir = join(tmpDir, "shared-source");
+    for (const name of ["alpha", "beta"]) {
+      await mkdir(join(sharedDir, "multi/plugins", name, "command"), { recursive: true });
+      await writeFile(join(sharedDir, "multi/plugins", name, "command/run.md"), `# ${name}`);
+    }
+    const sharedConfigPath = join(sharedDir, "ocm-import.json");
+    const sharedTarget = join(sharedDir, "target");
+    await writeFile(
+      sharedConfigPath,
+      JSON.stringify({
+        plugins: [
+          { source: "./multi", plugin: ["alpha"] },
+          { source: "./multi", plugin: ["beta"] },
+        ],
+      }),
+    );
+
+    const consoleSpy = spyOn(console, "log");
+    const consoleErrorSpy = spyOn(console, "error");
+    const exitSpy = spyOn(process, "exit").mockImplementation((code) => {
+      throw new Error(`process.exit called with ${code}`);
+    });
+
+    await importPlugins(sharedConfigPath, { targetDir: sharedTarget, force: false });
+
+    const lock = JSON.parse(await readFile(join(sharedDir, "ocm-import.lock.json"), "utf-8"));
+    expect(Object.keys(lock.plugins)).toEqual(["multi (plugin=alpha)", "multi (plugin=beta)"]);
+    expect(lock.plugins["multi (plugin=alpha)"].name).toBe("alpha");
+    expect(lock.plugins["multi (plugin=beta)"].name).toBe("beta");
+
+    consoleSpy.mockClear();
+    await importPlugins(sharedConfigPath, { targetDir: sharedTarget, force: false, frozen: true });
+
+    const output = consoleSpy.mock.calls.map((call) => String(call[0])).join("\n");
+    expect(output).toContain("Skipped:   2");
+    expect(output).toContain("Failed:    0");
+    expect(consoleErrorSpy).not.toHaveBeenCalled();
+    expect(exitSpy).not.toHaveBeenCalled();
+
+    consoleSpy.mockRestore();
+    consoleErrorSpy.mockRestore();
+    exitSpy.mockRestore();
+  });
+
+  test("should import in parallel over an existing v1 registry without losing entries", async () => {
+    const parallelDir = join(tmpDir, "parallel-v1");
+    const parallelTarget = join(parallelDir, "target");
+    const registryPath = join(parallelTarget, "plugins/installed.json");
+    const names = Array.from({ length: 6 }, (_, i) => `v1-plugin-${i + 1}`);
+
+    for (const name of names) {
+      await mkdir(join(parallelDir, name, "command"), { recursive: true });
+      await writeFile(join(parallelDir, name, "command/run.md"), `# ${name}`);
+    }
+    const parallelConfigPath = join(parallelDir, "ocm-import.json");
+    await writeFile(parallelConfigPath, JSON.stringify({ plugins: names.map((n) => `./${n}`) }));
+
+    // A registry written by an older release, with a plugin the config doesn't list
+    await mkdir(join(parallelTarget, "commands"), { recursive: true });
+    await mkdir(join(parallelTarget, "plugins"), { recursive: true });
+    await writeFile(join(parallelTarget, "commands/legacy--run.md"), "# Legacy");
+    await writeFile(
+      registryPath,
+      JSON.stringify({
+        version: 1,
+        plugins: {
+          legacy: {
+            scope: "user",
+            sourcePath: join(parallelDir, "legacy"),
+            hash: "a1b2c3d4",
+            installedAt: "2026-01-02T10:30:00.000Z",
+            components: { commands: ["legacy--run.md"], agents: [], skills: [] },
+          },
+        },
+      }),
+    );
+
+    const consoleSpy = spyOn(console, "log");
+    const consoleErrorSpy = spyOn(console, "error");
+    const warnSpy = spyOn(console, "warn").mockImplementation(() => {});
+    const exitSpy = spyOn(process, "exit").mockImplementation((code) => {
+      throw new Error(`process.exit called with ${code}`);
+    });
+
+    await importPlugins(parallelConfigPath, {
+      targetDir: parallelTarget,
+      force: false,
+      concurrency: 6,
+    });
+
+    let output = consoleSpy.mock.calls.map((call) => String(call[0])).join("\n");
+    expect(consoleErrorSpy).not.toHaveBeenCalled();
+    expect(output).toContain("Installed: 6");
+    expect(warnSpy.mock.calls.filter((call) => String(call[0]).includes("Migrated"))).toHaveLength(
+      1,
+    );
+
+    let registry = await loadRegistry("user", parallelTarget);
+    expect(Object.keys(registry.plugins).sort()).toEqual(["legacy", ...names]);
+
+    // Concurrent updates of an existing registry each build on the others' saves
+    for (const name of names) {
+      await writeFile(join(parallelDir, name, "command/run.md"), `# ${name} v2`);
+    }
+    consoleSpy.mockClear();
+    await importPlugins(parallelConfigPath, {
+      targetDir: parallelTarget,
+      force: false,
+      concurrency: 6,
+    });
+
+    output = consoleSpy.mock.calls.map((call) => String(call[0])).join("\n");
+    expect(consoleErrorSpy).not.toHaveBeenCalled();
+    expect(output).toContain("Updated:   6");
+
+    registry = await loadRegistry("user", parallelTarget);
+    expect(Object.keys(registry.plugins).sort()).toEqual(["legacy", ...names]);
+    const lock = JSON.parse(await readFile(join(parallelDir, "ocm-import.lock.json"), "utf-8"));
+    for (const name of names) {
+      expect(registry.plugins[name].hash).toBe(lock.plugins[name].hash);
+    }
+
+    consoleSpy.mockRestore();
+    consoleErrorSpy.mockRestore();
+    warnSpy.mockRestore();
+    exitSpy.mockRestore();
+  });
 });
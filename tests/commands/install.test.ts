@@ -1,9 +1,11 @@
 import { afterAll, beforeAll, beforeEach, describe, expect, spyOn, test } from "bun:test";
 import { existsSync } from "node:fs";
-import { mkdir, readFile, rm, writeFile } from "node:fs/promises";
+import { mkdir, readdir, readFile, rm, writeFile } from "node:fs/promises";
 import { join } from "node:path";
 import { install } from "../../src/commands/install";
+import * as registryModule from "../../src/registry";
 import { loadRegistry } from "../../src/registry";
+import { createGitRepo, createTarGz, git } from "../helpers";
 
 describe("Install Command", () => {
   const tmpDir = join(process.cwd(), "tests", "tmp-install-cmd");
@@ -12,12 +14,14 @@ describe("Install Command", () => {
 
   beforeAll(async () => {
     await rm(tmpDir, { recursive: true, force: true });
+    process.env.XDG_CACHE_HOME = join(tmpDir, "cache");
     await mkdir(tmpDir, { recursive: true });
     await mkdir(pluginsDir, { recursive: true });
     await mkdir(installDir, { recursive: true });
   });
 
   afterAll(async () => {
+    delete process.env.XDG_CACHE_HOME;
     await rm(tmpDir, { recursive: true, force: true });
   });
 
@@ -322,6 +326,159 @@ describe("Install Command", () => {
     await rm(join(installDir, ".opencode"), { recursive: true, force: true });
   });
 
+  test("should install plugin from generic git URL with ref and subpath", async () => {
+    const repoUrl = await createGitRepo(join(tmpDir, "repos", "mono"), {
+      "plugins/git-plugin/command/hello.md": "# Hello",
+      "README.md": "# Mono",
+    });
+
+    const consoleSpy = spyOn(console, "log");
+
+    await install(`${repoUrl}#main:plugins/git-plugin`, {
+      scope: "project",
+      force: false,
+      verbose: false,
+    });
+
+    expect(existsSync(join(installDir, ".opencode/commands/git-plugin--hello.md"))).toBe(true);
+
+    const registry = await loadRegistry("project");
+    expect(registry.plugins["git-plugin"].source).toEqual({
+      type: "git",
+      url: repoUrl,
+      ref: "main",
+      subpath: "plugins/git-plugin",
+      commit: git(join(tmpDir, "repos", "mono"), "rev-parse", "HEAD"),
+    });
+
+    consoleSpy.mockRestore();
+
+    // Cleanup
+    await rm(join(installDir, ".opencode"), { recursive: true, force: true });
+  });
+
+  test("should install plugin from a tar.gz archive", async () => {
+    const archivePath = join(tmpDir, "archives", "packed-plugin.tar.gz");
+    await createTarGz(archivePath, {
+      "packed-plugin/command/hello.md": "# Hello",
+    });
+
+    const consoleSpy = spyOn(console, "log");
+
+    await install(archivePath, { scope: "project", force: false, verbose: false });
+
+    expect(existsSync(join(installDir, ".opencode/commands/packed-plugin--hello.md"))).toBe(true);
+
+    const registry = await loadRegistry("project");
+    const source = registry.plugins["packed-plugin"].source;
+    expect(source.type).toBe("archive");
+    expect(source.type === "archive" && source.path).toBe(archivePath);
+    expect(source.type === "archive" && source.checksum).toHaveLength(64);
+
+    consoleSpy.mockRestore();
+
+    // Cleanup
+    await rm(join(installDir, ".opencode"), { recursive: true, force: true });
+  });
+
+  test("should require a choice for multi-plugin sources without a terminal", async () => {
+    const repoDir = join(pluginsDir, "multi-local");
+    await mkdir(join(repoDir, "plugins/alpha/command"), { recursive: true });
+    await mkdir(join(repoDir, "plugins/beta/agent"), { recursive: true });
+    await writeFile(join(repoDir, "plugins/alpha/command/a.md"), "# A");
+    await writeFile(join(repoDir, "plugins/beta/agent/b.md"), "# B");
+
+    try {
+      await install(repoDir, { scope: "project", force: false });
+      expect.unreachable("Should have thrown an error");
+    } catch (error) {
+      expect((error as Error).message).toContain("contains 2 plugins (alpha, beta)");
+    }
+
+    try {
+      await install(repoDir, { scope: "project", force: false, plugin: "gamma" });
+      expect.unreachable("Should have thrown an error");
+    } catch (error) {
+      expect((error as Error).message).toContain('Plugin "gamma" not found');
+    }
+  });
+
+  test("should reject --plugin naming another plugin than a single-plugin source holds", async () => {
+    const pluginDir = join(pluginsDir, "single-local");
+    await mkdir(join(pluginDir, "command"), { recursive: true });
+    await writeFile(join(pluginDir, "command/a.md"), "# A");
+
+    try {
+      await install(pluginDir, { scope: "project", force: false, plugin: "other" });
+      expect.unreachable("Should have thrown an error");
+    } catch (error) {
+      expect((error as Error).message).toBe(
+        `Plugin "other" not found in ${pluginDir}. Available plugins: single-local`,
+      );
+    }
+    expect((await loadRegistry("project")).plugins["single-local"]).toBeUndefined();
+  });
+
+  test("should install selected plugins of a multi-plugin source as separate entries", async () => {
+    const repoDir = join(pluginsDir, "multi-local");
+    const consoleSpy = spyOn(console, "log");
+
+    const result = await install(repoDir, { scope: "project", force: false, plugin: "beta" });
+
+    expect(result.plugins?.map((plugin) => plugin.pluginName)).toEqual(["beta"]);
+    expect(existsSync(join(installDir, ".opencode/agents/beta--b.md"))).toBe(true);
+    expect(existsSync(join(installDir, ".opencode/commands/alpha--a.md"))).toBe(false);
+
+    const registry = await loadRegistry("project");
+    expect(registry.plugins.beta.source).toEqual({
+      type: "local",
+      path: join(repoDir, "plugins", "beta"),
+    });
+    expect(registry.plugins.alpha).toBeUndefined();
+
+    consoleSpy.mockRestore();
+
+    // Cleanup
+    await rm(join(installDir, ".opencode"), { recursive: true, force: true });
+  });
+
+  test("should install every plugin of a multi-plugin git repository with --all", async () => {
+    const repoDir = join(tmpDir, "repos", "multi");
+    const repoUrl = await createGitRepo(repoDir, {
+      "plugins/alpha/command/a.md": "# A",
+      "plugins/beta/agent/b.md": "# B",
+    });
+
+    const consoleSpy = spyOn(console, "log");
+
+    const result = await install(repoUrl, { scope: "project", force: false, all: true });
+
+    const output = consoleSpy.mock.calls.map((call) => call[0]).join("\n");
+    expect(output).toContain(`Found 2 plugins in ${repoUrl}: alpha, beta`);
+    expect(result.status).toBe("installed");
+    expect(result.plugins).toHaveLength(2);
+
+    const registry = await loadRegistry("project");
+    const commit = git(repoDir, "rev-parse", "HEAD");
+    expect(registry.plugins.alpha.source).toEqual({
+      type: "git",
+      url: repoUrl,
+      subpath: "plugins/alpha",
+      commit,
+    });
+    expect(registry.plugins.beta.source).toEqual({
+      type: "git",
+      url: repoUrl,
+      subpath: "plugins/beta",
+      commit,
+    });
+
+    consoleSpy.mockRestore();
+
+    // Cleanup
+    await rm(join(installDir, ".opencode"), { recursive: true, force: true });
+  });
+
   test("should error on invalid plugin name", async () => {
     const pluginDir = join(pluginsDir, "Invalid_Name!");
     await mkdir(pluginDir, { recursive: true });
@@ -335,4 +492,109 @@ describe("Install Command", () => {
       expect(error.message).toContain("Invalid plugin name");
     }
   });
+
+  test("should restore the previous version when the registry write fails", async () => {
+    const pluginDir = join(pluginsDir, "rollback-plugin");
+    await mkdir(join(pluginDir, "command"), { recursive: true });
+    await mkdir(join(pluginDir, "skill", "review"), { recursive: true });
+    await writeFile(join(pluginDir, "command/hello.md"), "# Hello v1");
+    await writeFile(join(pluginDir, "skill/review/SKILL.md"), "# Review v1");
+
+    const consoleSpy = spyOn(console, "log");
+    await install(pluginDir, { scope: "project", force: false });
+    const before = await loadRegistry("project");
+
+    await writeFile(join(pluginDir, "command/hello.md"), "# Hello v2");
+    await writeFile(join(pluginDir, "command/extra.md"), "# Extra");
+    await writeFile(join(pluginDir, "skill/review/SKILL.md"), "# Review v2");
+    const saveSpy = spyOn(registryModule, "saveRegistry").mockRejectedValue(
+      new Error("ENOSPC: no space left on device"),
+    );
+
+    try {
+      await install(pluginDir, { scope: "project", force: false });
+      expect.unreachable("Should have thrown an error");
+    } catch (error) {
+      expect(error.message).toContain("ENOSPC");
+    }
+
+    saveSpy.mockRestore();
+    consoleSpy.mockRestore();
+
+    const commandsDir = join(installDir, ".opencode/commands");
+    expect(await readFile(join(commandsDir, "rollback-plugin--hello.md"), "utf-8")).toBe(
+      "# Hello v1",
+    );
+    expect(
+      await readFile(
+        join(installDir, ".opencode/skills/rollback-plugin--review/SKILL.md"),
+        "utf-8",
+      ),
+    ).toBe("# Review v1");
+    expect(existsSync(join(commandsDir, "rollback-plugin--extra.md"))).toBe(false);
+    expect((await readdir(commandsDir)).filter((name) => name.includes(".ocm-"))).toEqual([]);
+    expect(await loadRegistry("project")).toEqual(before);
+  });
+
+  test("should remove components the new version no longer provides", async () => {
+    const pluginDir = join(pluginsDir, "diff-plugin");
+    await mkdir(join(pluginDir, "command"), { recursive: true });
+    await mkdir(join(pluginDir, "agent"), { recursive: true });
+    await writeFile(join(pluginDir, "command/keep.md"), "# Keep");
+    await writeFile(join(pluginDir, "command/drop.md"), "# Drop");
+    await writeFile(join(pluginDir, "agent/helper.md"), "# Helper v1");
+
+    const consoleSpy = spyOn(console, "log");
+    await install(pluginDir, { scope: "project", force: false });
+
+    await rm(join(pluginDir, "command/drop.md"));
+    await writeFile(join(pluginDir, "agent/helper.md"), "# Helper v2");
+    await writeFile(join(pluginDir, "command/new.md"), "# New");
+    consoleSpy.mockClear();
+
+    const result = await install(pluginDir, { scope: "project", force: false });
+
+    const output = consoleSpy.mock.calls.map((call) => call[0]).join("\n");
+    expect(result.status).toBe("updated");
+    expect(output).toContain("  → agent/diff-plugin--helper.md (changed)");
+    expect(output).toContain("  → command/diff-plugin--keep.md\n");
+    expect(output).toContain("  → command/diff-plugin--new.md (added)");
+    expect(output).toContain("  ✗ command/diff-plugin--drop.md (removed)");
+    expect(output).toContain("Components: 1 added, 1 changed, 1 removed.");
+
+    const commandsDir = join(installDir, ".opencode/commands");
+    expect(existsSync(join(commandsDir, "diff-plugin--drop.md"))).toBe(false);
+    expect(existsSync(join(commandsDir, "diff-plugin--new.md"))).toBe(true);
+    expect((await readdir(commandsDir)).filter((name) => name.includes(".ocm-"))).toEqual([]);
+    expect((await loadRegistry("project")).plugins["diff-plugin"].components.commands).toEqual([
+      "diff-plugin--keep.md",
+      "diff-plugin--new.md",
+    ]);
+
+    consoleSpy.mockRestore();
+  });
+
+  test("should not record --target-dir for a project-scope install", async () => {
+    const pluginDir = join(pluginsDir, "project-target-plugin");
+    await mkdir(join(pluginDir, "command"), { recursive: true });
+    await writeFile(join(pluginDir, "command/hello.md"), "# Hello");
+
+    const consoleSpy = spyOn(console, "log");
+    await install(pluginDir, {
+      scope: "project",
+      force: false,
+      targetDir: join(tmpDir, "ignored-target"),
+    });
+
+    const output = consoleSpy.mock.calls.map((call) => call[0]).join("\n");
+    expect(output).toContain("Installed project-target-plugin (1 command) to project scope.");
+    expect(existsSync(join(installDir, ".opencode/commands/project-target-plugin--hello.md"))).toBe(
+      true,
+    );
+    expect(
+      (await loadRegistry("project")).plugins["project-target-plugin"].targetDir,
+    ).toBeUndefined();
+
+    consoleSpy.mockRestore();
+  });
 });
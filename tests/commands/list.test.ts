@@ -80,6 +80,43 @@ describe("list command", () => {
     ]);
   });
 
+  it("should display resolved commit for remote plugins", async () => {
+    const registry = {
+      version: 2 as const,
+      plugins: {
+        "remote-plugin": {
+          name: "remote-plugin",
+          hash: "a1b2c3d4e5f6g7h8",
+          scope: "user" as Scope,
+          source: {
+            type: "remote",
+            url: "https://github.com/user/repo/tree/main/remote-plugin",
+            ref: "main",
+            commit: "0123456789abcdef0123456789abcdef01234567",
+          },
+          installedAt: "2024-01-01T00:00:00.000Z",
+          components: {
+            commands: ["remote-plugin--command.md"],
+            agents: [],
+            skills: [],
+          },
+        },
+      },
+    };
+
+    await saveRegistry(registry, "user");
+
+    const options: ListOptions = {};
+    await list(options);
+
+    expect(consoleSpy.mock.calls).toEqual([
+      ["User scope:"],
+      ["  remote-plugin [a1b2c3d4] (1 command)"],
+      ["    Source: https://github.com/user/repo/tree/main/remote-plugin"],
+      ["    Commit: 0123456"],
+    ]);
+  });
+
   it("should display multiple plugins sorted alphabetically", async () => {
     const registry = {
       version: 2 as const,
@@ -353,4 +390,35 @@ describe("list command", () => {
 
     expect(consoleSpy).toHaveBeenLastCalledWith("No plugins installed in user scope.");
   });
+
+  it("should list plugins installed into a custom target directory", async () => {
+    const targetDir = join(tempDir, "custom-target");
+    await saveRegistry(
+      {
+        version: 2,
+        plugins: {
+          "target-plugin": {
+            name: "target-plugin",
+            hash: "t1b2c3d4e5f6",
+            scope: "user",
+            source: { type: "local", path: "/path/to/target" },
+            installedAt: "2026-01-01T00:00:00.000Z",
+            targetDir,
+            components: { commands: ["target-plugin--run.md"], agents: [], skills: [] },
+          },
+        },
+      },
+      "user",
+      targetDir,
+    );
+
+    await list({ scope: "user", targetDir });
+
+    expect(consoleSpy.mock.calls).toEqual([
+      ["User scope:"],
+      ["  target-plugin [t1b2c3d4] (1 command)"],
+      ["    Source: /path/to/target"],
+      [`    Target: ${targetDir}`],
+    ]);
+  });
 });
@@ -0,0 +1,254 @@
+import { afterAll, afterEach, beforeAll, describe, expect, mock, spyOn, test } from "bun:test";
+import { existsSync } from "node:fs";
+import { mkdir, readFile, rm, writeFile } from "node:fs/promises";
+import * as os from "node:os";
+import { join } from "node:path";
+import { install } from "../../src/commands/install";
+import {
+  marketplaceAdd,
+  marketplaceList,
+  marketplaceRefresh,
+  marketplaceRemove,
+} from "../../src/commands/marketplace";
+import { getConfigPath, loadConfig, resetConfigCache } from "../../src/config";
+import { fetchMarketplace, getMarketplaceCachePath, loadMarketplace } from "../../src/marketplace";
+import { loadRegistry } from "../../src/registry";
+import { createGitRepo } from "../helpers";
+
+const tmpDir = join(process.cwd(), "tests", "tmp-marketplace-cmd");
+
+mock.module("node:os", () => ({
+  ...os,
+  homedir: () => join(tmpDir, "home"),
+}));
+
+describe("Marketplace Command", () => {
+  const catalogDir = join(tmpDir, "catalog");
+  const installDir = join(tmpDir, "install-target");
+  let repoUrl: string;
+
+  beforeAll(async () => {
+    await rm(tmpDir, { recursive: true, force: true });
+    process.env.XDG_CACHE_HOME = join(tmpDir, "cache");
+
+    repoUrl = await createGitRepo(join(tmpDir, "repos", "tools"), {
+      ".claude-plugin/marketplace.json": JSON.stringify({
+        name: "tools",
+        plugins: [
+          { name: "linter", source: "./plugins/linter", description: "Lint things" },
+          { name: "packaged", source: { source: "npm", package: "@acme/packaged" } },
+        ],
+      }),
+      "plugins/linter/command/lint.md": "# Lint",
+    });
+
+    await mkdir(join(catalogDir, ".claude-plugin"), { recursive: true });
+    await mkdir(join(catalogDir, "plugins", "local-helper", "agent"), { recursive: true });
+    await writeFile(join(catalogDir, "plugins", "local-helper", "agent", "helper.md"), "# Helper");
+    await writeFile(
+      join(catalogDir, ".claude-plugin", "marketplace.json"),
+      JSON.stringify({
+        name: "local-catalog",
+        metadata: { pluginRoot: "./plugins" },
+        plugins: [
+          {
+            name: "local-helper",
+            source: "./local-helper",
+            keywords: ["agents"],
+            agents: ["./local-helper/agent/helper.md"],
+          },
+          { name: "upstream", source: { source: "github", repo: "acme/upstream", ref: "v1" } },
+          { name: "mono", source: { source: "git-subdir", url: "acme/mono", path: "tools/x" } },
+        ],
+      }),
+    );
+  });
+
+  afterAll(async () => {
+    delete process.env.XDG_CACHE_HOME;
+    resetConfigCache();
+    await rm(tmpDir, { recursive: true, force: true });
+  });
+
+  afterEach(() => {
+    resetConfigCache();
+  });
+
+  test("fetchMarketplace should resolve plugin sources of a local catalog", async () => {
+    const { marketplace, skipped } = await fetchMarketplace(catalogDir);
+
+    expect(marketplace.name).toBe("local-catalog");
+    expect(skipped).toEqual([]);
+    expect(marketplace.plugins).toEqual([
+      {
+        name: "local-helper",
+        source: join(catalogDir, "plugins", "local-helper"),
+        keywords: ["agents"],
+        components: ["helper"],
+      },
+      { name: "upstream", source: "https://github.com/acme/upstream/tree/v1" },
+      { name: "mono", source: "https://github.com/acme/mono.git#:tools/x" },
+    ]);
+  });
+
+  test("fetchMarketplace should resolve relative sources within a remote catalog", async () => {
+    const { marketplace, skipped } = await fetchMarketplace(`${repoUrl}#main`);
+
+    expect(marketplace.name).toBe("tools");
+    expect(marketplace.plugins[0]).toEqual({
+      name: "linter",
+      source: `${repoUrl}#main:plugins/linter`,
+      description: "Lint things",
+    });
+    expect(skipped).toEqual(['packaged: unsupported source type "npm"']);
+  });
+
+  test("fetchMarketplace should report the offending field of an invalid catalog", async () => {
+    const badDir = join(tmpDir, "bad-catalog");
+    await mkdir(badDir, { recursive: true });
+    await writeFile(
+      join(badDir, "marketplace.json"),
+      JSON.stringify({ name: "bad", plugins: [{ name: "ok", source: "./ok" }, { source: "./x" }] }),
+    );
+
+    try {
+      await fetchMarketplace(badDir);
+      expect.unreachable("Should have thrown an error");
+    } catch (error) {
+      expect((error as Error).message).toBe(
+        "Invalid marketplace catalog: 'plugins[1].name' must be lowercase alphanumeric with hyphens",
+      );
+    }
+  });
+
+  test("marketplaceAdd should register the catalog in config and cache it", async () => {
+    const consoleSpy = spyOn(console, "log");
+    const warnSpy = spyOn(console, "warn").mockImplementation(() => {});
+
+    await marketplaceAdd(repoUrl, {});
+
+    const output = consoleSpy.mock.calls.map((call) => call[0]).join("\n");
+    expect(output).toContain(`Added marketplace tools (1 plugin) from ${repoUrl}.`);
+    expect(warnSpy.mock.calls[0][0]).toContain("Skipping plugin packaged");
+
+    expect(loadConfig().marketplaces?.tools.source).toBe(repoUrl);
+    expect(existsSync(getMarketplaceCachePath("tools"))).toBe(true);
+
+    consoleSpy.mockRestore();
+    warnSpy.mockRestore();
+  });
+
+  test("marketplaceAdd should preserve other config settings", async () => {
+    const config = JSON.parse(await readFile(getConfigPath(), "utf-8"));
+    config.skillsPath = "~/my-agents";
+    await writeFile(getConfigPath(), JSON.stringify(config));
+
+    const consoleSpy = spyOn(console, "log");
+
+    await marketplaceAdd(catalogDir, { name: "mine" });
+
+    const saved = JSON.parse(await readFile(getConfigPath(), "utf-8"));
+    expect(saved.skillsPath).toBe("~/my-agents");
+    expect(Object.keys(saved.marketplaces)).toEqual(["tools", "mine"]);
+
+    consoleSpy.mockRestore();
+  });
+
+  test("marketplaceAdd should reject a duplicate name", async () => {
+    const errorSpy = spyOn(console, "error").mockImplementation(() => {});
+    const exitSpy = spyOn(process, "exit").mockImplementation(() => {
+      throw new Error("process.exit called");
+    });
+
+    try {
+      await marketplaceAdd(catalogDir, { name: "mine" });
+    } catch {
+      // process.exit mock throws
+    }
+
+    expect(errorSpy.mock.calls[0][0]).toContain('Marketplace "mine" is already added');
+    expect(exitSpy).toHaveBeenCalledWith(1);
+
+    errorSpy.mockRestore();
+    exitSpy.mockRestore();
+  });
+
+  test("install should resolve plugin@marketplace through the catalog", async () => {
+    const originalCwd = process.cwd;
+    process.cwd = () => installDir;
+    const consoleSpy = spyOn(console, "log");
+
+    try {
+      await install("linter@tools", { scope: "project", force: false });
+
+      expect(existsSync(join(installDir, ".opencode/commands/linter--lint.md"))).toBe(true);
+
+      const registry = await loadRegistry("project");
+      expect(registry.plugins.linter.source).toMatchObject({
+        type: "git",
+        url: repoUrl,
+        subpath: "plugins/linter",
+      });
+    } finally {
+      process.cwd = originalCwd;
+      consoleSpy.mockRestore();
+    }
+  });
+
+  test("install should error on unknown marketplace or plugin", async () => {
+    for (const [reference, message] of [
+      ["linter@nowhere", 'Unknown marketplace "nowhere"'],
+      ["missing@tools", 'Plugin "missing" not found in marketplace "tools"'],
+    ]) {
+      try {
+        await install(reference, { scope: "project", force: false });
+        expect.unreachable("Should have thrown an error");
+      } catch (error) {
+        expect((error as Error).message).toContain(message);
+      }
+    }
+  });
+
+  test("marketplaceList should print registered catalogs", async () => {
+    const consoleSpy = spyOn(console, "log");
+
+    await marketplaceList({});
+
+    const output = consoleSpy.mock.calls.map((call) => call[0]).join("\n");
+    expect(output).toContain("mine (3 plugins, refreshed");
+    expect(output).toContain(`  Source: ${catalogDir}`);
+    expect(output).toContain("tools (1 plugin, refreshed");
+
+    consoleSpy.mockRestore();
+  });
+
+  test("marketplaceRefresh should re-fetch catalogs", async () => {
+    const catalogPath = join(catalogDir, ".claude-plugin", "marketplace.json");
+    const catalog = JSON.parse(await readFile(catalogPath, "utf-8"));
+    catalog.plugins.push({ name: "extra", source: "./extra" });
+    await writeFile(catalogPath, JSON.stringify(catalog));
+
+    const consoleSpy = spyOn(console, "log");
+
+    await marketplaceRefresh("mine", {});
+
+    const refreshed = await loadMarketplace("mine");
+    expect(refreshed?.name).toBe("mine");
+    expect(refreshed?.plugins.map((plugin) => plugin.name)).toContain("extra");
+    expect(consoleSpy.mock.calls.map((call) => call[0])).toContain("Refreshed mine (4 plugins).");
+
+    consoleSpy.mockRestore();
+  });
+
+  test("marketplaceRemove should unregister the catalog and drop its cache", async () => {
+    const consoleSpy = spyOn(console, "log");
+
+    await marketplaceRemove("mine");
+
+    expect(loadConfig().marketplaces?.mine).toBeUndefined();
+    expect(existsSync(getMarketplaceCachePath("mine"))).toBe(false);
+    expect(consoleSpy.mock.calls.map((call) => call[0])).toContain("Removed marketplace mine.");
+
+    consoleSpy.mockRestore();
+  });
+});
@@ -0,0 +1,73 @@
+import { afterAll, beforeAll, describe, expect, spyOn, test } from "bun:test";
+import { mkdir, rm } from "node:fs/promises";
+import { join } from "node:path";
+import { install } from "../../src/commands/install";
+import { outdated } from "../../src/commands/outdated";
+import { resetFetchedMirrors } from "../../src/git";
+import { loadRegistry } from "../../src/registry";
+import { commitFiles, createGitRepo } from "../helpers";
+
+describe("Outdated Command", () => {
+  const tmpDir = join(process.cwd(), "tests", "tmp-outdated-cmd");
+  const repoDir = join(tmpDir, "repos", "plugin-repo");
+  const installDir = join(tmpDir, "install-target");
+  const originalCwd = process.cwd;
+  let repoUrl: string;
+
+  beforeAll(async () => {
+    await rm(tmpDir, { recursive: true, force: true });
+    process.env.XDG_CACHE_HOME = join(tmpDir, "cache");
+    await mkdir(installDir, { recursive: true });
+    process.cwd = () => installDir;
+
+    repoUrl = await createGitRepo(repoDir, { "command/hello.md": "# Hello" });
+    spyOn(console, "log").mockImplementation(() => {});
+    await install(`${repoUrl}#main`, { scope: "project", force: false });
+  });
+
+  afterAll(async () => {
+    process.cwd = originalCwd;
+    delete process.env.XDG_CACHE_HOME;
+    await rm(tmpDir, { recursive: true, force: true });
+  });
+
+  test("should report remote plugins as up to date", async () => {
+    const consoleSpy = spyOn(console, "log").mockImplementation(() => {});
+
+    await outdated({ scope: "project" });
+
+    const output = consoleSpy.mock.calls.map((call) => call[0]).join("\n");
+    expect(output).toMatch(/Plugin\s+Scope\s+Current\s+Available\s+Status/);
+    expect(output).toMatch(/plugin-repo\s+project\s+.+\s+up to date/);
+    expect(output).toContain("All remote plugins are up to date.");
+
+    consoleSpy.mockRestore();
+  });
+
+  test("should flag changed plugins and exit non-zero without installing", async () => {
+    const before = await loadRegistry("project");
+    const newCommit = await commitFiles(repoDir, { "command/hello.md": "# Hello v2" }, "change");
+    resetFetchedMirrors();
+
+    const consoleSpy = spyOn(console, "log").mockImplementation(() => {});
+    const exitSpy = spyOn(process, "exit").mockImplementation(() => {
+      throw new Error("process.exit called");
+    });
+
+    try {
+      await outdated({ scope: "project" });
+    } catch {
+      // process.exit mock throws
+    }
+
+    const output = consoleSpy.mock.calls.map((call) => call[0]).join("\n");
+    expect(output).toMatch(/plugin-repo\s+project\s+.+\s+outdated/);
+    expect(output).toContain(`(${newCommit.substring(0, 7)})`);
+    expect(output).toContain("1 plugin is outdated.");
+    expect(exitSpy).toHaveBeenCalledWith(1);
+    expect(await loadRegistry("project")).toEqual(before);
+
+    consoleSpy.mockRestore();
+    exitSpy.mockRestore();
+  });
+});
@@ -0,0 +1,111 @@
+import { afterAll, beforeAll, describe, expect, spyOn, test } from "bun:test";
+import { mkdir, readdir, readFile, rm, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import { install } from "../../src/commands/install";
+import { registryRepair } from "../../src/commands/registry";
+import { uninstall } from "../../src/commands/uninstall";
+import { getRegistryPath, loadRegistry } from "../../src/registry";
+
+describe("Registry Command", () => {
+  const tmpDir = join(process.cwd(), "tests", "tmp-registry-cmd");
+  const pluginsDir = join(tmpDir, "plugins");
+  const targetDir = join(tmpDir, "target");
+  const registryPath = getRegistryPath("user", targetDir);
+
+  beforeAll(async () => {
+    await rm(tmpDir, { recursive: true, force: true });
+
+    for (const name of ["alpha", "beta"]) {
+      await mkdir(join(pluginsDir, name, "command"), { recursive: true });
+      await writeFile(join(pluginsDir, name, "command/run.md"), `# ${name}`);
+    }
+    await mkdir(join(pluginsDir, "beta", "skill", "lint"), { recursive: true });
+    await writeFile(join(pluginsDir, "beta", "skill/lint/SKILL.md"), "# Lint");
+  });
+
+  afterAll(async () => {
+    await rm(tmpDir, { recursive: true, force: true });
+  });
+
+  test("should rebuild a corrupt registry from its backup and the files on disk", async () => {
+    const consoleSpy = spyOn(console, "log");
+
+    await install(join(pluginsDir, "alpha"), { scope: "user", force: false, targetDir });
+    // The backup written by this install only knows alpha
+    await install(join(pluginsDir, "beta"), { scope: "user", force: false, targetDir });
+
+    await writeFile(registryPath, '{ "version": 2, "plugins": {');
+    await writeFile(join(targetDir, "commands/gamma--orphan.md"), "# Orphan");
+    await writeFile(join(targetDir, "commands/notes.md"), "# Not from a plugin");
+
+    consoleSpy.mockClear();
+    await registryRepair({ scope: "user", targetDir });
+
+    const output = consoleSpy.mock.calls.map((call) => String(call[0])).join("\n");
+    expect(output).toContain("Registry is invalid: invalid JSON");
+    expect(output).toContain(`Using entries from backup ${registryPath}.bak.1`);
+    expect(output).toContain("+ beta (recovered: 1 command, 1 skill, source unknown)");
+    expect(output).toContain("+ gamma (recovered: 1 command, source unknown)");
+    expect(output).toContain("Recovered: 2");
+    expect(output).toContain("Unchanged: 1");
+
+    const registry = await loadRegistry("user", targetDir);
+    expect(Object.keys(registry.plugins).sort()).toEqual(["alpha", "beta", "gamma"]);
+    expect(registry.plugins.alpha.source).toEqual({
+      type: "local",
+      path: join(pluginsDir, "alpha"),
+    });
+    expect(registry.plugins.beta.source).toEqual({ type: "unknown" });
+    expect(registry.plugins.beta.components).toEqual({
+      commands: ["beta--run.md"],
+      agents: [],
+      skills: ["beta--lint"],
+    });
+
+    // The corrupt file is kept next to the registry
+    const kept = (await readdir(join(targetDir, "plugins"))).filter((name) =>
+      name.startsWith("installed.json.corrupt-"),
+    );
+    expect(kept).toHaveLength(1);
+    expect(await readFile(join(targetDir, "plugins", kept[0]), "utf-8")).toContain('"plugins": {');
+
+    consoleSpy.mockRestore();
+  });
+
+  test("should drop entries without files and only preview with --dry-run", async () => {
+    const consoleSpy = spyOn(console, "log");
+    await rm(join(targetDir, "commands/gamma--orphan.md"));
+
+    await registryRepair({ scope: "user", targetDir, dryRun: true });
+
+    let output = consoleSpy.mock.calls.map((call) => String(call[0])).join("\n");
+    expect(output).toContain("- gamma (no files on disk)");
+    expect(output).toContain("Dry run complete (nothing was changed):");
+    expect((await loadRegistry("user", targetDir)).plugins.gamma).toBeDefined();
+
+    consoleSpy.mockClear();
+    await registryRepair({ scope: "user", targetDir });
+
+    expect((await loadRegistry("user", targetDir)).plugins.gamma).toBeUndefined();
+
+    consoleSpy.mockClear();
+    await registryRepair({ scope: "user", targetDir });
+
+    output = consoleSpy.mock.calls.map((call) => String(call[0])).join("\n");
+    expect(output).toContain("Registry matches the installed files; nothing to repair.");
+
+    consoleSpy.mockRestore();
+  });
+
+  test("should show recovered plugins without a hash as unknown", async () => {
+    const consoleSpy = spyOn(console, "log");
+
+    await uninstall("beta", { scope: "user", targetDir });
+
+    const output = consoleSpy.mock.calls.map((call) => String(call[0])).join("\n");
+    expect(output).toContain("Uninstalling beta [unknown]...");
+    expect((await loadRegistry("user", targetDir)).plugins.beta).toBeUndefined();
+
+    consoleSpy.mockRestore();
+  });
+});
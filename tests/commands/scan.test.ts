@@ -42,6 +42,26 @@ describe("Scan Command", () => {
     consoleSpy.mockRestore();
   });
 
+  test("should only list components matching include/exclude patterns", async () => {
+    const consoleSpy = spyOn(console, "log");
+
+    await scan(join(tmpDir, "multi-component"), {
+      include: ["command:*", "skill:*"],
+      exclude: "cmd2",
+    });
+
+    const output = consoleSpy.mock.calls.map((call) => call[0]).join("\n");
+    expect(output).toContain("→ command/multi-component--cmd1.md");
+    expect(output).not.toContain("multi-component--cmd2.md");
+    expect(output).not.toContain("agent1");
+    expect(output).toContain("Found 1 command, 1 skill");
+    expect(output).toContain(
+      "Filter include command:*, skill:*; exclude cmd2 excludes 2 of 4 component(s).",
+    );
+
+    consoleSpy.mockRestore();
+  });
+
   test("should show verbose output when verbose flag is set", async () => {
     const pluginDir = join(tmpDir, "verbose-test");
     await mkdir(join(pluginDir, "command"), { recursive: true });
@@ -233,4 +253,31 @@ describe("Scan Command", () => {
 
     consoleSpy.mockRestore();
   });
+
+  test("should scan every plugin of a multi-plugin repository", async () => {
+    const repoDir = join(tmpDir, "multi-repo");
+    await mkdir(join(repoDir, "plugins/alpha/command"), { recursive: true });
+    await mkdir(join(repoDir, "plugins/beta/agent"), { recursive: true });
+    await writeFile(join(repoDir, "plugins/alpha/command/a.md"), "# A");
+    await writeFile(join(repoDir, "plugins/beta/agent/b.md"), "# B");
+
+    const consoleSpy = spyOn(console, "log");
+
+    await scan(repoDir, { verbose: false });
+
+    const output = consoleSpy.mock.calls.map((call) => call[0]).join("\n");
+    expect(output).toContain(`Found 2 plugins in ${repoDir}: alpha, beta`);
+    expect(output).toContain("→ command/alpha--a.md");
+    expect(output).toContain("→ agent/beta--b.md");
+
+    consoleSpy.mockClear();
+
+    await scan(repoDir, { verbose: false, plugin: "beta" });
+
+    const filtered = consoleSpy.mock.calls.map((call) => call[0]).join("\n");
+    expect(filtered).not.toContain("Scanning alpha");
+    expect(filtered).toContain("Scanning beta");
+
+    consoleSpy.mockRestore();
+  });
 });
@@ -0,0 +1,141 @@
+import { afterAll, beforeAll, describe, expect, mock, spyOn, test } from "bun:test";
+import { rm } from "node:fs/promises";
+import * as os from "node:os";
+import { join } from "node:path";
+import { search } from "../../src/commands/search";
+import { resetConfigCache, saveMarketplaces } from "../../src/config";
+import { saveMarketplace } from "../../src/marketplace";
+import { saveRegistry } from "../../src/registry";
+
+const tmpDir = join(process.cwd(), "tests", "tmp-search-cmd");
+
+mock.module("node:os", () => ({
+  ...os,
+  homedir: () => join(tmpDir, "home"),
+}));
+
+describe("Search Command", () => {
+  const originalCwd = process.cwd;
+
+  beforeAll(async () => {
+    await rm(tmpDir, { recursive: true, force: true });
+    process.env.XDG_CACHE_HOME = join(tmpDir, "cache");
+    process.cwd = () => join(tmpDir, "project");
+    resetConfigCache();
+
+    await saveMarketplaces({
+      tools: { source: "/catalogs/tools", addedAt: "2026-01-01T00:00:00.000Z" },
+      team: { source: "/catalogs/team", addedAt: "2026-01-01T00:00:00.000Z" },
+      stale: { source: "/catalogs/stale", addedAt: "2026-01-01T00:00:00.000Z" },
+    });
+
+    await saveMarketplace({
+      name: "tools",
+      source: "/catalogs/tools",
+      refreshedAt: "2026-01-01T00:00:00.000Z",
+      plugins: [
+        { name: "linter", source: "/catalogs/tools/linter", description: "Lint your code" },
+        {
+          name: "reviewer",
+          source: "/catalogs/tools/reviewer",
+          description: "Pull request helpers",
+          keywords: ["code-review"],
+          components: ["review-pr"],
+        },
+      ],
+    });
+
+    await saveMarketplace({
+      name: "team",
+      source: "/catalogs/team",
+      refreshedAt: "2026-01-01T00:00:00.000Z",
+      plugins: [{ name: "docs", source: "/catalogs/team/docs", description: "Write docs" }],
+    });
+
+    await saveRegistry(
+      {
+        version: 2,
+        plugins: {
+          linter: {
+            name: "linter",
+            hash: "a1b2c3d4e5f6",
+            scope: "user",
+            source: { type: "local", path: "/catalogs/tools/linter" },
+            installedAt: "2026-01-01T00:00:00.000Z",
+            components: { commands: ["linter--lint.md"], agents: [], skills: [] },
+          },
+        },
+      },
+      "user",
+    );
+  });
+
+  afterAll(async () => {
+    process.cwd = originalCwd;
+    delete process.env.XDG_CACHE_HOME;
+    resetConfigCache();
+    await rm(tmpDir, { recursive: true, force: true });
+  });
+
+  test("should match name and description and mark installed plugins", async () => {
+    const consoleSpy = spyOn(console, "log");
+    const warnSpy = spyOn(console, "warn").mockImplementation(() => {});
+
+    await search("code", {});
+
+    const output = consoleSpy.mock.calls.map((call) => call[0]).join("\n");
+    expect(output).toContain('Found 2 plugins matching "code"');
+    expect(output).toContain("linter@tools [installed]");
+    expect(output).toContain("reviewer@tools");
+    expect(output).not.toContain("reviewer@tools [installed]");
+    expect(output).not.toContain("docs@team");
+    expect(warnSpy.mock.calls[0][0]).toContain("Marketplace stale is not cached");
+
+    consoleSpy.mockRestore();
+    warnSpy.mockRestore();
+  });
+
+  test("should require every word of the query to match", async () => {
+    const consoleSpy = spyOn(console, "log");
+    const warnSpy = spyOn(console, "warn").mockImplementation(() => {});
+
+    await search("review-pr helpers", {});
+
+    const output = consoleSpy.mock.calls.map((call) => call[0]).join("\n");
+    expect(output).toContain('Found 1 plugin matching "review-pr helpers"');
+    expect(output).toContain("reviewer@tools");
+
+    consoleSpy.mockRestore();
+    warnSpy.mockRestore();
+  });
+
+  test("should print JSON results", async () => {
+    const consoleSpy = spyOn(console, "log");
+
+    await search("docs", { json: true });
+
+    expect(JSON.parse(consoleSpy.mock.calls[0][0])).toEqual([
+      {
+        name: "docs",
+        source: "/catalogs/team/docs",
+        description: "Write docs",
+        marketplace: "team",
+        installed: false,
+      },
+    ]);
+
+    consoleSpy.mockRestore();
+  });
+
+  test("should report when nothing matches", async () => {
+    const consoleSpy = spyOn(console, "log");
+    const warnSpy = spyOn(console, "warn").mockImplementation(() => {});
+
+    await search("nothing-matches", {});
+
+    expect(consoleSpy).toHaveBeenLastCalledWith('No plugins found matching "nothing-matches".');
+
+    consoleSpy.mockRestore();
+    warnSpy.mockRestore();
+  });
+});
@@ -474,4 +474,32 @@ describe("Uninstall Command", () => {
     warnSpy.mockRestore();
     uninstallExitSpy.mockRestore();
   });
+
+  test("should uninstall a plugin installed into a custom target directory", async () => {
+    const pluginDir = join(pluginsDir, "target-plugin");
+    const targetDir = join(tmpDir, "custom-target");
+    await mkdir(join(pluginDir, "command"), { recursive: true });
+    await mkdir(join(pluginDir, "skill", "lint"), { recursive: true });
+    await writeFile(join(pluginDir, "command/run.md"), "# Run");
+    await writeFile(join(pluginDir, "skill/lint/SKILL.md"), "# Lint");
+
+    const consoleSpy = spyOn(console, "log");
+
+    await install(pluginDir, { scope: "user", force: false, targetDir });
+
+    const registry = await loadRegistry("user", targetDir);
+    expect(registry.plugins["target-plugin"].targetDir).toBe(targetDir);
+    expect(existsSync(join(targetDir, "commands/target-plugin--run.md"))).toBe(true);
+
+    consoleSpy.mockClear();
+    await uninstall("target-plugin", { scope: "user", targetDir });
+
+    const output = consoleSpy.mock.calls.map((call) => call[0]).join("\n");
+    expect(output).toContain(`Uninstalled target-plugin (1 command, 1 skill) from ${targetDir}.`);
+    expect(existsSync(join(targetDir, "commands/target-plugin--run.md"))).toBe(false);
+    expect(existsSync(join(targetDir, "skills/target-plugin--lint"))).toBe(false);
+    expect((await loadRegistry("user", targetDir)).plugins["target-plugin"]).toBeUndefined();
+
+    consoleSpy.mockRestore();
+  });
 });
@@ -0,0 +1,254 @@
+import {
+  afterAll,
+  afterEach,
+  beforeAll,
+  beforeEach,
+  describe,
+  expect,
+  spyOn,
+  test,
+} from "bun:test";
+import { existsSync } from "node:fs";
+import { mkdir, readFile, rm, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import { install } from "../../src/commands/install";
+import { update } from "../../src/commands/update";
+import { loadRegistry, saveRegistry } from "../../src/registry";
+import { createZip } from "../helpers";
+
+describe("Update Command", () => {
+  const tmpDir = join(process.cwd(), "tests", "tmp-update-cmd");
+  const pluginsDir = join(tmpDir, "plugins");
+  const installDir = join(tmpDir, "install-target");
+  const pluginDir = join(pluginsDir, "local-plugin");
+  const originalCwd = process.cwd;
+
+  beforeAll(async () => {
+    await rm(tmpDir, { recursive: true, force: true });
+    await mkdir(join(pluginDir, "command"), { recursive: true });
+    await mkdir(installDir, { recursive: true });
+    await writeFile(join(pluginDir, "command/hello.md"), "# Hello");
+  });
+
+  afterAll(async () => {
+    await rm(tmpDir, { recursive: true, force: true });
+  });
+
+  beforeEach(() => {
+    // Project scope resolves against the test install directory
+    process.cwd = () => installDir;
+  });
+
+  afterEach(() => {
+    process.cwd = originalCwd;
+  });
+
+  test("should report an unchanged local plugin as up to date", async () => {
+    const consoleSpy = spyOn(console, "log");
+
+    await install(pluginDir, { scope: "project", force: false });
+    const before = await loadRegistry("project");
+
+    consoleSpy.mockClear();
+    await update("local-plugin", { scope: "project" });
+
+    const output = consoleSpy.mock.calls.map((call) => call[0]).join("\n");
+    expect(output).toContain(`Checking ${pluginDir}...`);
+    expect(output).toContain("Plugin local-plugin is already up to date");
+    expect((await loadRegistry("project")).plugins["local-plugin"].installedAt).toBe(
+      before.plugins["local-plugin"].installedAt,
+    );
+
+    consoleSpy.mockRestore();
+  });
+
+  test("should reinstall a local plugin whose content changed", async () => {
+    await writeFile(join(pluginDir, "command/hello.md"), "# Hello again");
+    const before = await loadRegistry("project");
+    const consoleSpy = spyOn(console, "log");
+
+    await update("local-plugin", { scope: "project" });
+
+    const output = consoleSpy.mock.calls.map((call) => call[0]).join("\n");
+    expect(output).toContain("Updating local-plugin...");
+    expect(
+      await readFile(join(installDir, ".opencode/commands/local-plugin--hello.md"), "utf-8"),
+    ).toBe("# Hello again");
+    expect((await loadRegistry("project")).plugins["local-plugin"].hash).not.toBe(
+      before.plugins["local-plugin"].hash,
+    );
+
+    consoleSpy.mockRestore();
+  });
+
+  test("should error when the local source directory is gone", async () => {
+    await rm(pluginDir, { recursive: true, force: true });
+
+    const consoleSpy = spyOn(console, "log");
+    const errorSpy = spyOn(console, "error").mockImplementation(() => {});
+    const exitSpy = spyOn(process, "exit").mockImplementation(() => {
+      throw new Error("process.exit called");
+    });
+
+    try {
+      await update("local-plugin", { scope: "project" });
+    } catch {
+      // process.exit mock throws
+    }
+
+    expect(errorSpy.mock.calls[0][0]).toContain(
+      `Source directory of local plugin "local-plugin" no longer exists: ${pluginDir}`,
+    );
+    expect(exitSpy).toHaveBeenCalledWith(1);
+
+    consoleSpy.mockRestore();
+    errorSpy.mockRestore();
+    exitSpy.mockRestore();
+  });
+
+  test("should update all plugins of a scope and continue on failures", async () => {
+    const otherDir = join(pluginsDir, "other-plugin");
+    await mkdir(join(otherDir, "agent"), { recursive: true });
+    await writeFile(join(otherDir, "agent/helper.md"), "# Helper");
+
+    const consoleSpy = spyOn(console, "log");
+    const errorSpy = spyOn(console, "error").mockImplementation(() => {});
+    const exitSpy = spyOn(process, "exit").mockImplementation(() => {
+      throw new Error("process.exit called");
+    });
+
+    await install(otherDir, { scope: "project", force: false });
+    await writeFile(join(otherDir, "agent/helper.md"), "# Helper v2");
+    consoleSpy.mockClear();
+
+    try {
+      await update(undefined, { scope: "project", all: true });
+    } catch {
+      // process.exit mock throws
+    }
+
+    const output = consoleSpy.mock.calls.map((call) => call[0]).join("\n");
+    expect(output).toContain("[1/2] local-plugin (project)");
+    expect(output).toContain("[2/2] other-plugin (project)");
+    expect(output).toContain("Updated:   1");
+    expect(output).toContain("Unchanged: 0");
+    expect(output).toContain("Skipped:   0");
+    expect(output).toContain("Failed:    1");
+    expect(errorSpy.mock.calls[0][0]).toContain("no longer exists");
+    expect(exitSpy).toHaveBeenCalledWith(1);
+    expect(
+      await readFile(join(installDir, ".opencode/agents/other-plugin--helper.md"), "utf-8"),
+    ).toBe("# Helper v2");
+
+    consoleSpy.mockRestore();
+    errorSpy.mockRestore();
+    exitSpy.mockRestore();
+  });
+
+  test("should keep a partial selection and report new upstream components", async () => {
+    const selectiveDir = join(pluginsDir, "selective-plugin");
+    await mkdir(join(selectiveDir, "command"), { recursive: true });
+    await writeFile(join(selectiveDir, "command/keep.md"), "# Keep");
+    await writeFile(join(selectiveDir, "command/skip.md"), "# Skip");
+
+    const consoleSpy = spyOn(console, "log");
+    await install(selectiveDir, { scope: "project", force: false });
+
+    // Same registry state as choosing only "keep" with install -i
+    const registry = await loadRegistry("project");
+    registry.plugins["selective-plugin"].selection = {
+      included: ["command:keep"],
+      excluded: ["command:skip"],
+    };
+    await saveRegistry(registry, "project");
+
+    await writeFile(join(selectiveDir, "command/keep.md"), "# Keep v2");
+    await writeFile(join(selectiveDir, "command/new.md"), "# New");
+    consoleSpy.mockClear();
+
+    await update("selective-plugin", { scope: "project" });
+
+    const output = consoleSpy.mock.calls.map((call) => call[0]).join("\n");
+    expect(output).toContain("Available but not installed: command/new.md");
+
+    const commandsDir = join(installDir, ".opencode/commands");
+    expect(await readFile(join(commandsDir, "selective-plugin--keep.md"), "utf-8")).toBe(
+      "# Keep v2",
+    );
+    expect(existsSync(join(commandsDir, "selective-plugin--skip.md"))).toBe(false);
+    expect(existsSync(join(commandsDir, "selective-plugin--new.md"))).toBe(false);
+
+    const updated = (await loadRegistry("project")).plugins["selective-plugin"];
+    expect(updated.components.commands).toEqual(["selective-plugin--keep.md"]);
+    expect(updated.selection).toEqual({ included: ["command:keep"], excluded: ["command:skip"] });
+
+    consoleSpy.mockRestore();
+  });
+
+  test("should apply the remembered include/exclude filter on update", async () => {
+    const filteredDir = join(pluginsDir, "filtered-plugin");
+    await mkdir(join(filteredDir, "command"), { recursive: true });
+    await mkdir(join(filteredDir, "skill", "lint"), { recursive: true });
+    await writeFile(join(filteredDir, "command/review.md"), "# Review");
+    await writeFile(join(filteredDir, "command/deploy.md"), "# Deploy");
+    await writeFile(join(filteredDir, "skill/lint/SKILL.md"), "# Lint");
+
+    const consoleSpy = spyOn(console, "log");
+    await install(filteredDir, {
+      scope: "project",
+      force: false,
+      include: "command:*",
+      exclude: "command:deploy",
+    });
+
+    await writeFile(join(filteredDir, "command/review.md"), "# Review v2");
+    await writeFile(join(filteredDir, "command/release.md"), "# Release");
+    consoleSpy.mockClear();
+    await update("filtered-plugin", { scope: "project" });
+
+    const output = consoleSpy.mock.calls.map((call) => String(call[0])).join("\n");
+    expect(output).toContain(
+      "Reusing filter include command:*; exclude command:deploy from the previous install",
+    );
+
+    const plugin = (await loadRegistry("project")).plugins["filtered-plugin"];
+    expect(plugin.filter).toEqual({ include: ["command:*"], exclude: ["command:deploy"] });
+    expect(plugin.components).toEqual({
+      commands: ["filtered-plugin--release.md", "filtered-plugin--review.md"],
+      agents: [],
+      skills: [],
+    });
+
+    // New patterns replace the remembered filter
+    await update("filtered-plugin", { scope: "project", include: "skill:*" });
+
+    const replaced = (await loadRegistry("project")).plugins["filtered-plugin"];
+    expect(replaced.filter).toEqual({ include: ["skill:*"] });
+    expect(replaced.components.skills).toEqual(["filtered-plugin--lint"]);
+    expect(replaced.components.commands).toEqual([]);
+    expect(existsSync(join(installDir, ".opencode/commands/filtered-plugin--review.md"))).toBe(
+      false,
+    );
+
+    consoleSpy.mockRestore();
+  });
+
+  test("should count plugins it can't check as skipped, not unchanged", async () => {
+    const archiveTarget = join(tmpDir, "archive-target");
+    const archivePath = join(tmpDir, "archived-plugin.zip");
+    await createZip(archivePath, { "command/hello.md": "# Hello", "agent/helper.md": "# Helper" });
+
+    const consoleSpy = spyOn(console, "log");
+    await install(archivePath, { scope: "user", force: false, targetDir: archiveTarget });
+    consoleSpy.mockClear();
+
+    await update(undefined, { scope: "user", all: true, targetDir: archiveTarget });
+
+    const output = consoleSpy.mock.calls.map((call) => call[0]).join("\n");
+    expect(output).toContain("Skipped: archive plugins are updated by installing the new archive");
+    expect(output).toContain("Unchanged: 0");
+    expect(output).toContain("Skipped:   1");
+
+    consoleSpy.mockRestore();
+  });
+});
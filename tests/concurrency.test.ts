@@ -0,0 +1,114 @@
+import { describe, expect, spyOn, test } from "bun:test";
+import { createSerializer, runConcurrently } from "../src/concurrency";
+
+const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe("createSerializer", () => {
+  test("should run tasks one at a time in call order", async () => {
+    const serialize = createSerializer();
+    const events: string[] = [];
+
+    const task = (name: string, ms: number) => async () => {
+      events.push(`start ${name}`);
+      await delay(ms);
+      events.push(`end ${name}`);
+      return name;
+    };
+
+    const results = await Promise.all([serialize(task("a", 20)), serialize(task("b", 0))]);
+
+    expect(results).toEqual(["a", "b"]);
+    expect(events).toEqual(["start a", "end a", "start b", "end b"]);
+  });
+
+  test("should keep running tasks after a failure", async () => {
+    const serialize = createSerializer();
+
+    const failed = serialize(async () => {
+      throw new Error("boom");
+    });
+    const next = serialize(async () => "ok");
+
+    await expect(failed).rejects.toThrow("boom");
+    expect(await next).toBe("ok");
+  });
+
+  test("should run nested calls from a running task right away", async () => {
+    const serialize = createSerializer();
+    const events: string[] = [];
+
+    const outer = serialize(async () => {
+      events.push("start outer");
+      await delay(10);
+      events.push(await serialize(async () => "inner"));
+      events.push("end outer");
+    });
+    const next = serialize(async () => {
+      events.push("next");
+    });
+
+    await Promise.all([outer, next]);
+    expect(events).toEqual(["start outer", "inner", "end outer", "next"]);
+  });
+});
+
+describe("runConcurrently", () => {
+  test("should limit the number of tasks in flight and keep result order", async () => {
+    let running = 0;
+    let maxRunning = 0;
+
+    const tasks = [30, 10, 20, 0].map((ms, index) => async () => {
+      running++;
+      maxRunning = Math.max(maxRunning, running);
+      await delay(ms);
+      running--;
+      return index;
+    });
+
+    expect(await runConcurrently(tasks, 2)).toEqual([0, 1, 2, 3]);
+    expect(maxRunning).toBe(2);
+  });
+
+  test("should print each task's output as one block in task order", async () => {
+    const consoleSpy = spyOn(console, "log").mockImplementation(() => {});
+
+    const task = (name: string, ms: number) => async () => {
+      console.log(`${name} start`);
+      await delay(ms);
+      console.log(`${name} end`);
+    };
+
+    await runConcurrently([task("a", 30), task("b", 0), task("c", 10)], 3);
+
+    expect(consoleSpy.mock.calls.map((call) => call[0])).toEqual([
+      "a start",
+      "a end",
+      "b start",
+      "b end",
+      "c start",
+      "c end",
+    ]);
+
+    consoleSpy.mockRestore();
+  });
+
+  test("should reject with the first failure after all tasks settled", async () => {
+    let finished = 0;
+
+    const run = runConcurrently(
+      [
+        async () => {
+          throw new Error("first");
+        },
+        async () => {
+          await delay(10);
+          finished++;
+        },
+      ],
+      2,
+    );
+
+    await expect(run).rejects.toThrow("first");
+    expect(finished).toBe(1);
+  });
+});
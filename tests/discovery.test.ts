@@ -1,7 +1,7 @@
 import { afterAll, beforeAll, describe, expect, test } from "bun:test";
 import { mkdir, rm, writeFile } from "node:fs/promises";
 import { join } from "node:path";
-import { discoverComponents } from "../src/discovery";
+import { discoverComponents, discoverPluginDirectories } from "../src/discovery";
 
 describe("Discovery", () => {
   const tmpDir = join(process.cwd(), "tests", "tmp-discovery");
@@ -101,4 +101,33 @@ describe("Discovery", () => {
     expect(commands).toHaveLength(1);
     expect(commands[0].name).toBe("cmd.md");
   });
+
+  test("should find plugin folders of a multi-plugin repository", async () => {
+    const root = join(tmpDir, "multi");
+    await mkdir(join(root, "plugins/alpha/command"), { recursive: true });
+    await writeFile(join(root, "plugins/alpha/command/a.md"), "# A");
+    await mkdir(join(root, "plugins/beta"), { recursive: true });
+    await writeFile(join(root, "plugins/beta/plugin.json"), '{"name": "beta"}');
+    await mkdir(join(root, "plugins/empty"), { recursive: true });
+    await mkdir(join(root, "gamma/agents"), { recursive: true });
+    await writeFile(join(root, "gamma/agents/g.md"), "# G");
+    await mkdir(join(root, ".github/commands"), { recursive: true });
+    await writeFile(join(root, ".github/commands/ci.md"), "# CI");
+
+    expect(await discoverPluginDirectories(root)).toEqual([
+      "gamma",
+      join("plugins", "alpha"),
+      join("plugins", "beta"),
+    ]);
+  });
+
+  test("should not look for plugin folders when the root has components", async () => {
+    const root = join(tmpDir, "single");
+    await mkdir(join(root, "command"), { recursive: true });
+    await writeFile(join(root, "command/cmd.md"), "# Cmd");
+    await mkdir(join(root, "plugins/other/command"), { recursive: true });
+    await writeFile(join(root, "plugins/other/command/x.md"), "# X");
+
+    expect(await discoverPluginDirectories(root)).toEqual([]);
+  });
 });
@@ -0,0 +1,71 @@
+import { describe, expect, test } from "bun:test";
+import { buildGitUrl, getGitRepoName, isGitUrl, parseGitUrl } from "../src/git-url";
+
+describe("Git URL parsing", () => {
+  test("isGitUrl should detect git remotes", () => {
+    expect(isGitUrl("https://gitlab.com/org/repo.git")).toBe(true);
+    expect(isGitUrl("ssh://git@gitea.example.com/org/repo.git")).toBe(true);
+    expect(isGitUrl("git@bitbucket.org:org/repo.git")).toBe(true);
+    expect(isGitUrl("file:///srv/git/repo.git")).toBe(true);
+    expect(isGitUrl("/local/path")).toBe(false);
+    expect(isGitUrl("./relative/path")).toBe(false);
+    expect(isGitUrl("C:\\Users\\dev\\plugin")).toBe(false);
+  });
+
+  test("parseGitUrl should parse plain URL", () => {
+    expect(parseGitUrl("git@gitlab.com:org/repo.git")).toEqual({
+      url: "git@gitlab.com:org/repo.git",
+    });
+  });
+
+  test("parseGitUrl should parse URL with ref", () => {
+    expect(parseGitUrl("https://gitlab.com/org/repo.git#v1.0.0")).toEqual({
+      url: "https://gitlab.com/org/repo.git",
+      ref: "v1.0.0",
+    });
+  });
+
+  test("parseGitUrl should parse URL with ref and subpath", () => {
+    expect(parseGitUrl("git@gitlab.com:org/mono.git#main:plugins/foo/")).toEqual({
+      url: "git@gitlab.com:org/mono.git",
+      ref: "main",
+      subpath: "plugins/foo",
+    });
+  });
+
+  test("parseGitUrl should parse URL with subpath only", () => {
+    expect(parseGitUrl("file:///srv/git/mono.git#:plugins/foo")).toEqual({
+      url: "file:///srv/git/mono.git",
+      subpath: "plugins/foo",
+    });
+  });
+
+  test("parseGitUrl should return null for invalid input", () => {
+    expect(parseGitUrl("/local/path")).toBeNull();
+    expect(parseGitUrl("not-a-url#main")).toBeNull();
+    expect(parseGitUrl("git@gitlab.com:org/repo.git#main:../escape")).toBeNull();
+  });
+
+  test("buildGitUrl and parseGitUrl should be reversible", () => {
+    const urls = [
+      "git@gitlab.com:org/repo.git",
+      "https://gitlab.com/org/repo.git#v1.0.0",
+      "ssh://git@gitea.example.com/org/mono.git#main:plugins/foo",
+      "file:///srv/git/mono.git#:plugins/foo",
+    ];
+
+    for (const url of urls) {
+      const parsed = parseGitUrl(url);
+      expect(parsed).not.toBeNull();
+      if (parsed) {
+        expect(buildGitUrl(parsed)).toBe(url);
+      }
+    }
+  });
+
+  test("getGitRepoName should extract repository name", () => {
+    expect(getGitRepoName("git@gitlab.com:org/my-plugins.git")).toBe("my-plugins");
+    expect(getGitRepoName("https://gitea.example.com/org/tools/")).toBe("tools");
+    expect(getGitRepoName("git@host:repo.git")).toBe("repo");
+  });
+});
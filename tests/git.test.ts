@@ -0,0 +1,163 @@
+import { afterAll, beforeAll, describe, expect, spyOn, test } from "bun:test";
+import { existsSync } from "node:fs";
+import { readFile, rename, rm } from "node:fs/promises";
+import { join } from "node:path";
+import { getMirrorPath } from "../src/cache";
+import {
+  cleanup,
+  cloneToTemp,
+  isCommitSha,
+  resetFetchedMirrors,
+  supportsSparseCheckout,
+} from "../src/git";
+import { commitFiles, createGitRepo, git } from "./helpers";
+
+describe("Git", () => {
+  const tmpDir = join(process.cwd(), "tests", "tmp-git");
+  const repoDir = join(tmpDir, "repo");
+  let repoUrl: string;
+  let firstCommit: string;
+  let secondCommit: string;
+
+  beforeAll(async () => {
+    await rm(tmpDir, { recursive: true, force: true });
+    process.env.XDG_CACHE_HOME = join(tmpDir, "cache");
+    repoUrl = await createGitRepo(repoDir, { "command/hello.md": "# Version 1" });
+    firstCommit = git(repoDir, "rev-parse", "HEAD");
+    secondCommit = await commitFiles(repoDir, { "command/hello.md": "# Version 2" }, "second");
+  });
+
+  afterAll(async () => {
+    delete process.env.XDG_CACHE_HOME;
+    await rm(tmpDir, { recursive: true, force: true });
+  });
+
+  test("isCommitSha should detect full and abbreviated SHAs", () => {
+    expect(isCommitSha("0123456789abcdef0123456789abcdef01234567")).toBe(true);
+    expect(isCommitSha("abc1234")).toBe(true);
+    expect(isCommitSha("main")).toBe(false);
+    expect(isCommitSha("v1.0.0")).toBe(false);
+    expect(isCommitSha("abc12")).toBe(false);
+  });
+
+  test("cloneToTemp should resolve the commit of a branch", async () => {
+    const result = await cloneToTemp(repoUrl, "main");
+
+    expect(result.commit).toBe(secondCommit);
+    expect(await readFile(join(result.pluginPath, "command/hello.md"), "utf-8")).toBe(
+      "# Version 2",
+    );
+
+    await cleanup(result.tempDir);
+  });
+
+  test("cloneToTemp should checkout a full commit SHA", async () => {
+    const result = await cloneToTemp(repoUrl, firstCommit);
+
+    expect(result.commit).toBe(firstCommit);
+    expect(await readFile(join(result.pluginPath, "command/hello.md"), "utf-8")).toBe(
+      "# Version 1",
+    );
+
+    await cleanup(result.tempDir);
+  });
+
+  test("cloneToTemp should checkout an abbreviated commit SHA", async () => {
+    const result = await cloneToTemp(repoUrl, firstCommit.substring(0, 7));
+
+    expect(result.commit).toBe(firstCommit);
+
+    await cleanup(result.tempDir);
+  });
+
+  test("cloneToTemp should clean up and throw for unknown refs", async () => {
+    try {
+      await cloneToTemp(repoUrl, "does-not-exist");
+      expect.unreachable("Should have thrown an error");
+    } catch (error) {
+      expect((error as Error).message).toContain('Failed to resolve ref "does-not-exist"');
+    }
+  });
+
+  test("cleanup should remove the temp directory", async () => {
+    const result = await cloneToTemp(repoUrl);
+    await cleanup(result.tempDir);
+    expect(existsSync(result.tempDir)).toBe(false);
+  });
+
+  test("cloneToTemp should fail offline for a repository never fetched", async () => {
+    const otherUrl = await createGitRepo(join(tmpDir, "never-fetched"), { "command/a.md": "# A" });
+
+    try {
+      await cloneToTemp(otherUrl, undefined, undefined, { offline: true });
+      expect.unreachable("Should have thrown an error");
+    } catch (error) {
+      expect((error as Error).message).toContain("has never been fetched");
+    }
+  });
+
+  test("cloneToTemp should resolve fetched refs offline", async () => {
+    const result = await cloneToTemp(repoUrl, "main", undefined, { offline: true });
+
+    expect(result.commit).toBe(secondCommit);
+
+    await cleanup(result.tempDir);
+  });
+
+  test("cloneToTemp should fail offline for a ref never fetched", async () => {
+    try {
+      await cloneToTemp(repoUrl, "feature", undefined, { offline: true });
+      expect.unreachable("Should have thrown an error");
+    } catch (error) {
+      expect((error as Error).message).toContain('Ref "feature"');
+      expect((error as Error).message).toContain("has never been fetched");
+    }
+  });
+
+  test("cloneToTemp should fall back to the cache when fetching fails", async () => {
+    const movedDir = join(tmpDir, "repo-moved");
+    await rename(repoDir, movedDir);
+    resetFetchedMirrors();
+
+    const warnSpy = spyOn(console, "warn");
+
+    try {
+      const result = await cloneToTemp(repoUrl, "main");
+      expect(result.commit).toBe(secondCommit);
+      await cleanup(result.tempDir);
+
+      const warnings = warnSpy.mock.calls.map((call) => String(call[0])).join("\n");
+      expect(warnings).toContain("Using cached copy");
+    } finally {
+      warnSpy.mockRestore();
+      await rename(movedDir, repoDir);
+    }
+  });
+
+  test("cloneToTemp should only check out the subpath from a partial mirror", async () => {
+    const monoDir = join(tmpDir, "mono");
+    const monoUrl = await createGitRepo(monoDir, {
+      "plugins/a/command/a.md": "# A",
+      "plugins/b/command/b.md": "# B",
+    });
+    git(monoDir, "config", "uploadpack.allowFilter", "true");
+
+    const result = await cloneToTemp(monoUrl, "main", "plugins/a");
+
+    expect(await readFile(join(result.pluginPath, "command/a.md"), "utf-8")).toBe("# A");
+
+    if (supportsSparseCheckout()) {
+      expect(existsSync(join(result.tempDir, "plugins/b"))).toBe(false);
+      expect(git(getMirrorPath(monoUrl), "config", "remote.origin.partialclonefilter")).toBe(
+        "blob:none",
+      );
+    }
+
+    await cleanup(result.tempDir);
+
+    // A later full checkout from the same mirror still sees every file
+    const full = await cloneToTemp(monoUrl, "main");
+    expect(existsSync(join(full.tempDir, "plugins/b/command/b.md"))).toBe(true);
+    await cleanup(full.tempDir);
+  });
+});
@@ -10,6 +10,14 @@ describe("GitHub URL parsing", () => {
     });
   });
 
+  test("parseGitHubUrl should strip .git suffix from clone URLs", () => {
+    const result = parseGitHubUrl("https://github.com/user/repo.git");
+    expect(result).toEqual({
+      owner: "user",
+      repo: "repo",
+    });
+  });
+
   test("parseGitHubUrl should parse URL with branch", () => {
     const result = parseGitHubUrl("https://github.com/user/repo/tree/main");
     expect(result).toEqual({
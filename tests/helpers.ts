@@ -0,0 +1,146 @@
+import { spawnSync } from "node:child_process";
+import { mkdir, writeFile } from "node:fs/promises";
+import { dirname, join } from "node:path";
+import { crc32, deflateRawSync, gzipSync } from "node:zlib";
+
+/**
+ * Runs a git command in the given directory and returns trimmed stdout.
+ */
+export function git(cwd: string, ...args: string[]): string {
+  const result = spawnSync(
+    "git",
+    ["-c", "user.name=Test", "-c", "user.email=test@example.com", ...args],
+    { cwd, encoding: "utf-8" },
+  );
+
+  if (result.status !== 0) {
+    throw new Error(`git ${args.join(" ")} failed: ${result.stderr}`);
+  }
+
+  return result.stdout.trim();
+}
+
+/**
+ * Creates a git repository on branch "main" with the given files committed.
+ * Returns the file:// URL of the repository.
+ */
+export async function createGitRepo(dir: string, files: Record<string, string>): Promise<string> {
+  await mkdir(dir, { recursive: true });
+  git(dir, "init", "--quiet", "--initial-branch=main");
+  await commitFiles(dir, files, "initial");
+  return `file://${dir}`;
+}
+
+/**
+ * Writes the given files into the repository and commits them.
+ * Returns the new commit SHA.
+ */
+export async function commitFiles(
+  dir: string,
+  files: Record<string, string>,
+  message: string,
+): Promise<string> {
+  for (const [relativePath, content] of Object.entries(files)) {
+    const filePath = join(dir, relativePath);
+    await mkdir(dirname(filePath), { recursive: true });
+    await writeFile(filePath, content);
+  }
+
+  git(dir, "add", "-A");
+  git(dir, "commit", "--quiet", "-m", message);
+  return git(dir, "rev-parse", "HEAD");
+}
+
+/**
+ * Writes a .tar.gz archive containing the given files (paths are used verbatim).
+ * Files are 0644 unless `modes` gives their permission bits.
+ */
+export async function createTarGz(
+  archivePath: string,
+  files: Record<string, string>,
+  modes: Record<string, number> = {},
+) {
+  const blocks: Buffer[] = [];
+
+  for (const [path, content] of Object.entries(files)) {
+    const data = Buffer.from(content);
+    const header = Buffer.alloc(512);
+    header.write(path, 0, 100, "utf-8");
+    header.write(`${(modes[path] ?? 0o644).toString(8).padStart(7, "0")}\0`, 100);
+    header.write("0000000\0", 108);
+    header.write("0000000\0", 116);
+    header.write(`${data.length.toString(8).padStart(11, "0")}\0`, 124);
+    header.write("00000000000\0", 136);
+    header.write("        ", 148); // checksum placeholder
+    header.write("0", 156);
+    header.write("ustar\u000000", 257);
+
+    const checksum = header.reduce((sum, byte) => sum + byte, 0);
+    header.write(`${checksum.toString(8).padStart(6, "0")}\0 `, 148);
+
+    blocks.push(header, data, Buffer.alloc((512 - (data.length % 512)) % 512));
+  }
+
+  blocks.push(Buffer.alloc(1024));
+  await mkdir(dirname(archivePath), { recursive: true });
+  await writeFile(archivePath, gzipSync(Buffer.concat(blocks)));
+}
+
+/**
+ * Writes a .zip archive containing the given files, deflated (paths are used verbatim).
+ * Files with permission bits in `modes` are recorded as created on unix.
+ */
+export async function createZip(
+  archivePath: string,
+  files: Record<string, string>,
+  modes: Record<string, number> = {},
+) {
+  const localParts: Buffer[] = [];
+  const centralParts: Buffer[] = [];
+  let offset = 0;
+
+  for (const [path, content] of Object.entries(files)) {
+    const name = Buffer.from(path);
+    const data = Buffer.from(content);
+    const compressed = deflateRawSync(data);
+    const crc = crc32(data);
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(20, 4);
+    local.writeUInt16LE(8, 8);
+    local.writeUInt32LE(crc, 14);
+    local.writeUInt32LE(compressed.length, 18);
+    local.writeUInt32LE(data.length, 22);
+    local.writeUInt16LE(name.length, 26);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(path in modes ? 0x0314 : 20, 4); // unix host, version 2.0
+    central.writeUInt16LE(20, 6);
+    central.writeUInt16LE(8, 10);
+    central.writeUInt32LE(crc, 16);
+    central.writeUInt32LE(compressed.length, 20);
+    central.writeUInt32LE(data.length, 24);
+    central.writeUInt16LE(name.length, 28);
+    if (path in modes) {
+      central.writeUInt32LE(((0o100000 | modes[path]) << 16) >>> 0, 38);
+    }
+    central.writeUInt32LE(offset, 42);
+
+    localParts.push(local, name, compressed);
+    centralParts.push(central, name);
+    offset += local.length + name.length + compressed.length;
+  }
+
+  const centralDirectory = Buffer.concat(centralParts);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(centralParts.length / 2, 8);
+  end.writeUInt16LE(centralParts.length / 2, 10);
+  end.writeUInt32LE(centralDirectory.length, 12);
+  end.writeUInt32LE(offset, 16);
+
+  await mkdir(dirname(archivePath), { recursive: true });
+  await writeFile(archivePath, Buffer.concat([...localParts, centralDirectory, end]));
+}
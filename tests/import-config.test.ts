@@ -0,0 +1,130 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { mkdir, readFile, rm, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import { loadImportConfig, saveImportConfig } from "../src/import-config";
+
+describe("Import Config", () => {
+  const tmpDir = join(process.cwd(), "tests", "tmp-import-config");
+  const configPath = join(tmpDir, "ocm-import.json");
+
+  beforeAll(async () => {
+    await rm(tmpDir, { recursive: true, force: true });
+    await mkdir(tmpDir, { recursive: true });
+  });
+
+  afterAll(async () => {
+    await rm(tmpDir, { recursive: true, force: true });
+  });
+
+  async function load(plugins: unknown[]) {
+    await writeFile(configPath, JSON.stringify({ plugins }));
+    return loadImportConfig(configPath);
+  }
+
+  test("should accept string and object entries", async () => {
+    const config = await load([
+      "./local-plugin",
+      "tools@team",
+      {
+        source: "https://github.com/org/tools",
+        ref: "v1.2.0",
+        scope: "project",
+        include: "command:*",
+        exclude: ["command:deploy"],
+        name: "team-tools",
+        targetDir: "./opencode",
+      },
+      { source: "git@gitlab.com:org/mono.git", ref: "main" },
+      { source: "./mono", plugin: "alpha" },
+      { source: "./mono", all: true },
+    ]);
+
+    expect(config.plugins).toEqual([
+      { source: join(tmpDir, "local-plugin") },
+      { source: "tools@team" },
+      {
+        source: "https://github.com/org/tools/tree/v1.2.0",
+        scope: "project",
+        include: ["command:*"],
+        exclude: ["command:deploy"],
+        name: "team-tools",
+        targetDir: join(tmpDir, "opencode"),
+      },
+      { source: "git@gitlab.com:org/mono.git#main" },
+      { source: join(tmpDir, "mono"), plugin: ["alpha"] },
+      { source: join(tmpDir, "mono"), all: true },
+    ]);
+  });
+
+  test("should report the exact location of invalid entries", async () => {
+    await expect(load(["./ok", 42])).rejects.toThrow(
+      "'plugins[1]' must be a non-empty string or an object",
+    );
+    await expect(load([{ scope: "user" }])).rejects.toThrow(
+      "'plugins[0].source' must be a non-empty string",
+    );
+    await expect(load([{ source: "./ok", scope: "global" }])).rejects.toThrow(
+      '\'plugins[0].scope\' must be "user" or "project"',
+    );
+    await expect(load([{ source: "./ok", include: ["command:*", 3] }])).rejects.toThrow(
+      "'plugins[0].include[1]' must be a non-empty string",
+    );
+    await expect(load([{ source: "./ok", exclude: "widget:*" }])).rejects.toThrow(
+      "'plugins[0].exclude': Invalid component pattern \"widget:*\"",
+    );
+    await expect(load([{ source: "./ok", name: "Bad Name" }])).rejects.toThrow(
+      "'plugins[0].name' must be lowercase alphanumeric with hyphens",
+    );
+    await expect(load([{ source: "./ok", plugin: ["alpha", "Beta"] }])).rejects.toThrow(
+      "'plugins[0].plugin[1]' must be lowercase alphanumeric with hyphens",
+    );
+    await expect(load([{ source: "./ok", plugin: "alpha", all: true }])).rejects.toThrow(
+      "'plugins[0]' can't set both 'plugin' and 'all'",
+    );
+    await expect(load([{ source: "./ok", alias: "x" }])).rejects.toThrow(
+      "'plugins[0].alias' is not a known option",
+    );
+  });
+
+  test("should only accept a ref for remote sources without one", async () => {
+    await expect(load([{ source: "./ok", ref: "main" }])).rejects.toThrow(
+      "'plugins[0].ref' requires a remote source without a ref",
+    );
+    await expect(
+      load([{ source: "https://github.com/org/tools/tree/main", ref: "v1" }]),
+    ).rejects.toThrow("'plugins[0].ref' requires a remote source without a ref");
+  });
+
+  test("should validate the default scope", async () => {
+    await writeFile(configPath, JSON.stringify({ scope: "project", plugins: [] }));
+    expect(await loadImportConfig(configPath)).toEqual({ scope: "project", plugins: [] });
+
+    await writeFile(configPath, JSON.stringify({ scope: "global", plugins: [] }));
+    await expect(loadImportConfig(configPath)).rejects.toThrow(
+      '\'scope\' must be "user" or "project"',
+    );
+  });
+
+  test("should save configs with relative paths that load back unchanged", async () => {
+    const config = {
+      scope: "project" as const,
+      plugins: [
+        { source: join(tmpDir, "plugins", "local") },
+        { source: join(process.cwd(), "other"), targetDir: join(tmpDir, "opencode") },
+        {
+          source: "https://github.com/org/tools/tree/v1",
+          scope: "user" as const,
+          include: ["command:review"],
+        },
+      ],
+    };
+
+    await saveImportConfig(config, configPath);
+
+    const saved = JSON.parse(await readFile(configPath, "utf-8"));
+    expect(saved.plugins[0]).toBe("./plugins/local");
+    expect(saved.plugins[1].source).toMatch(/^\.\.\//);
+    expect(saved.plugins[1].targetDir).toBe("./opencode");
+    expect(await loadImportConfig(configPath)).toEqual(config);
+  });
+});
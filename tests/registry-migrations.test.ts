@@ -0,0 +1,50 @@
+import { describe, expect, test } from "bun:test";
+import { migrateRegistry, REGISTRY_VERSION } from "../src/registry-migrations";
+
+describe("Registry Migrations", () => {
+  test("should leave a current registry unchanged", () => {
+    const registry = { version: REGISTRY_VERSION, plugins: {} };
+
+    expect(migrateRegistry(registry)).toEqual({ registry, fromVersion: REGISTRY_VERSION });
+  });
+
+  test("should convert v1 source paths to typed sources", () => {
+    const { registry, fromVersion } = migrateRegistry({
+      version: 1,
+      plugins: {
+        tools: {
+          scope: "project",
+          sourcePath: "git@gitlab.com:org/plugins.git#v1:tools",
+          hash: "abc",
+          installedAt: "2026-01-02T10:30:00.000Z",
+          components: { commands: [], agents: ["tools--helper.md"], skills: [] },
+        },
+      },
+    });
+
+    expect(fromVersion).toBe(1);
+    expect(registry.version).toBe(2);
+    expect(registry.plugins.tools.name).toBe("tools");
+    expect(registry.plugins.tools.source).toEqual({
+      type: "git",
+      url: "git@gitlab.com:org/plugins.git",
+      ref: "v1",
+      subpath: "tools",
+    });
+  });
+
+  test("should reject malformed v1 entries", () => {
+    expect(() => migrateRegistry({ version: 1, plugins: { broken: { scope: "user" } } })).toThrow(
+      `'plugins["broken"].sourcePath' must be a string in a v1 registry`,
+    );
+  });
+
+  test("should reject unknown and newer versions", () => {
+    expect(() => migrateRegistry({ version: "2", plugins: {} })).toThrow(
+      "'version' must be a positive integer",
+    );
+    expect(() => migrateRegistry({ version: REGISTRY_VERSION + 1, plugins: {} })).toThrow(
+      "is newer than this release supports",
+    );
+  });
+});
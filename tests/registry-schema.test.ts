@@ -0,0 +1,47 @@
+import { describe, expect, test } from "bun:test";
+import { validateRegistry } from "../src/registry-schema";
+
+describe("Registry Schema", () => {
+  const plugin = {
+    name: "tools",
+    hash: "abc",
+    scope: "user",
+    source: { type: "git", url: "https://gitlab.com/org/tools.git", ref: "v1" },
+    installedAt: "2026-01-02T10:30:00.000Z",
+    selection: { included: ["command:review"], excluded: ["skill:lint"] },
+    filter: { include: ["command:*"] },
+    components: { commands: ["tools--review.md"], agents: [], skills: [] },
+  };
+
+  const validate = (overrides: Record<string, unknown>) =>
+    validateRegistry({ version: 2, plugins: { tools: { ...plugin, ...overrides } } });
+
+  test("should accept valid registries", () => {
+    expect(validate({}).plugins.tools.name).toBe("tools");
+    expect(validate({ source: { type: "unknown" }, hash: "" }).plugins.tools.source.type).toBe(
+      "unknown",
+    );
+  });
+
+  test("should name the first invalid field", () => {
+    expect(() => validateRegistry({ version: 2, plugins: [] })).toThrow(
+      "'plugins' must be an object",
+    );
+    expect(() => validate({ name: "other" })).toThrow(`'plugins["tools"].name' must be "tools"`);
+    expect(() => validate({ scope: "global" })).toThrow(
+      `'plugins["tools"].scope' must be "user" or "project"`,
+    );
+    expect(() => validate({ source: { type: "svn" } })).toThrow(
+      `'plugins["tools"].source.type' must be one of local, archive, remote, git, unknown`,
+    );
+    expect(() => validate({ source: { type: "archive", path: "/a.tgz" } })).toThrow(
+      `'plugins["tools"].source.checksum' must be a string`,
+    );
+    expect(() => validate({ components: { commands: [1], agents: [], skills: [] } })).toThrow(
+      `'plugins["tools"].components.commands' must be an array of strings`,
+    );
+    expect(() => validate({ selection: { included: [] } })).toThrow(
+      `'plugins["tools"].selection.excluded' must be an array of strings`,
+    );
+  });
+});
@@ -1,12 +1,15 @@
-import { afterAll, beforeAll, describe, expect, mock, test } from "bun:test";
-import { mkdir, rm } from "node:fs/promises";
+import { afterAll, beforeAll, describe, expect, mock, spyOn, test } from "bun:test";
+import { existsSync } from "node:fs";
+import { mkdir, readdir, readFile, rm, writeFile } from "node:fs/promises";
 import { tmpdir } from "node:os";
 import { join } from "node:path";
 import {
   getAllInstalledPlugins,
   getInstalledPlugin,
+  getRegistryBackupPath,
   getRegistryPath,
   loadRegistry,
+  REGISTRY_BACKUPS,
   saveRegistry,
 } from "../src/registry";
 import type { InstalledPlugin, PluginRegistry } from "../src/types";
@@ -118,4 +121,136 @@ describe("Registry", () => {
     expect(allPlugins.map((p) => p.name)).toContain("test-plugin");
     expect(allPlugins.map((p) => p.name)).toContain("project-plugin");
   });
+
+  test("loadRegistry should migrate a v1 registry and back up the original", async () => {
+    const targetDir = join(testTmpDir, "v1-target");
+    const registryPath = getRegistryPath("user", targetDir);
+    const v1 = {
+      version: 1,
+      plugins: {
+        misc: {
+          scope: "user",
+          sourcePath: "/home/user/plugins/misc",
+          hash: "a1b2c3d4",
+          installedAt: "2026-01-02T10:30:00.000Z",
+          components: { commands: ["misc--reflect.md"], agents: [], skills: [] },
+        },
+        remote: {
+          scope: "user",
+          sourcePath: "https://github.com/user/repo/tree/main/plugins/remote",
+          hash: "e5f6a7b8",
+          installedAt: "2026-01-03T10:30:00.000Z",
+          components: { commands: [], agents: [], skills: ["remote--review"] },
+        },
+      },
+    };
+    await mkdir(join(targetDir, "plugins"), { recursive: true });
+    await writeFile(registryPath, JSON.stringify(v1));
+
+    const warnSpy = spyOn(console, "warn").mockImplementation(() => {});
+    const registry = await loadRegistry("user", targetDir);
+
+    expect(registry.version).toBe(2);
+    expect(registry.plugins.misc).toEqual({
+      name: "misc",
+      hash: "a1b2c3d4",
+      scope: "user",
+      source: { type: "local", path: "/home/user/plugins/misc" },
+      installedAt: "2026-01-02T10:30:00.000Z",
+      components: { commands: ["misc--reflect.md"], agents: [], skills: [] },
+    });
+    expect(registry.plugins.remote.source).toEqual({
+      type: "remote",
+      url: "https://github.com/user/repo/tree/main/plugins/remote",
+      ref: "main",
+    });
+    expect(warnSpy.mock.calls[0][0]).toContain("from version 1 to 2");
+
+    // The migrated registry is saved and the original kept as a backup
+    expect(JSON.parse(await readFile(`${registryPath}.v1.bak`, "utf-8"))).toEqual(v1);
+    expect(JSON.parse(await readFile(registryPath, "utf-8"))).toEqual(registry);
+
+    warnSpy.mockRestore();
+  });
+
+  test("loadRegistry should migrate a v1 registry only once for concurrent loads", async () => {
+    const targetDir = join(testTmpDir, "v1-concurrent-target");
+    const registryPath = getRegistryPath("user", targetDir);
+    await mkdir(join(targetDir, "plugins"), { recursive: true });
+    await writeFile(registryPath, JSON.stringify({ version: 1, plugins: {} }));
+
+    const warnSpy = spyOn(console, "warn").mockImplementation(() => {});
+    const registries = await Promise.all(
+      Array.from({ length: 6 }, () => loadRegistry("user", targetDir)),
+    );
+
+    expect(registries.every((registry) => registry.version === 2)).toBe(true);
+    expect(warnSpy).toHaveBeenCalledTimes(1);
+    expect(existsSync(`${registryPath}.v1.bak`)).toBe(true);
+    expect(existsSync(getRegistryBackupPath(registryPath, 2))).toBe(false);
+    expect(
+      (await readdir(join(targetDir, "plugins"))).filter((name) => name.endsWith(".tmp")),
+    ).toEqual([]);
+
+    warnSpy.mockRestore();
+  });
+
+  test("loadRegistry should reject invalid files instead of returning an empty registry", async () => {
+    const targetDir = join(testTmpDir, "invalid-target");
+    const registryPath = getRegistryPath("user", targetDir);
+    await mkdir(join(targetDir, "plugins"), { recursive: true });
+
+    await writeFile(registryPath, "{ not json");
+    await expect(loadRegistry("user", targetDir)).rejects.toThrow(
+      `Invalid registry ${registryPath}: invalid JSON`,
+    );
+
+    await writeFile(
+      registryPath,
+      JSON.stringify({
+        version: 2,
+        plugins: { broken: { name: "broken", hash: 1, scope: "user", source: {} } },
+      }),
+    );
+    await expect(loadRegistry("user", targetDir)).rejects.toThrow(
+      `'plugins["broken"].hash' must be a string`,
+    );
+    await expect(loadRegistry("user", targetDir)).rejects.toThrow(
+      `registry repair --target-dir ${targetDir}`,
+    );
+
+    // The invalid file is never overwritten
+    await expect(saveRegistry({ version: 2, plugins: {} }, "user", targetDir)).rejects.toThrow(
+      "Refusing to overwrite invalid registry",
+    );
+    expect(JSON.parse(await readFile(registryPath, "utf-8")).plugins.broken.hash).toBe(1);
+  });
+
+  test("saveRegistry should keep rotating backups of previous versions", async () => {
+    const targetDir = join(testTmpDir, "backup-target");
+    const registryPath = getRegistryPath("user", targetDir);
+
+    for (let i = 1; i <= REGISTRY_BACKUPS + 2; i++) {
+      const plugin: InstalledPlugin = {
+        name: `plugin-${i}`,
+        hash: String(i),
+        scope: "user",
+        source: { type: "local", path: `/plugins/${i}` },
+        installedAt: new Date().toISOString(),
+        components: { commands: [], agents: [], skills: [] },
+      };
+      await saveRegistry({ version: 2, plugins: { [plugin.name]: plugin } }, "user", targetDir);
+    }
+
+    const savedNames = async (path: string) =>
+      Object.keys(JSON.parse(await readFile(path, "utf-8")).plugins);
+
+    expect(await savedNames(registryPath)).toEqual([`plugin-${REGISTRY_BACKUPS + 2}`]);
+    for (let index = 1; index <= REGISTRY_BACKUPS; index++) {
+      expect(await savedNames(getRegistryBackupPath(registryPath, index))).toEqual([
+        `plugin-${REGISTRY_BACKUPS + 2 - index}`,
+      ]);
+    }
+    expect(existsSync(getRegistryBackupPath(registryPath, REGISTRY_BACKUPS + 1))).toBe(false);
+  });
 });
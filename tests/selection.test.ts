@@ -0,0 +1,64 @@
+import { describe, expect, test } from "bun:test";
+import {
+  applyComponentFilter,
+  applySelection,
+  createComponentFilter,
+  createSelection,
+  getComponentId,
+} from "../src/selection";
+import type { DiscoveredComponent } from "../src/types";
+
+function component(type: DiscoveredComponent["type"], name: string): DiscoveredComponent {
+  return { type, name, sourcePath: `/plugin/${type}/${name}`, targetName: `p--${name}` };
+}
+
+describe("Selection", () => {
+  const review = component("command", "review.md");
+  const helper = component("agent", "helper.md");
+  const lint = component("skill", "lint");
+
+  test("getComponentId should drop the .md extension", () => {
+    expect(getComponentId(review)).toBe("command:review");
+    expect(getComponentId(lint)).toBe("skill:lint");
+  });
+
+  test("createSelection should record included and excluded components", () => {
+    expect(createSelection([review, helper, lint], [lint, review])).toEqual({
+      included: ["command:review", "skill:lint"],
+      excluded: ["agent:helper"],
+    });
+  });
+
+  test("applySelection should skip excluded and report unknown components", () => {
+    const result = applySelection([review, helper, lint], {
+      included: ["command:review", "command:removed"],
+      excluded: ["agent:helper"],
+    });
+
+    expect(result.selected).toEqual([review]);
+    expect(result.available).toEqual([lint]);
+  });
+
+  test("createComponentFilter should normalize and validate patterns", () => {
+    expect(createComponentFilter()).toBeUndefined();
+    expect(createComponentFilter("command:review*", ["skill:*", "lint"])).toEqual({
+      include: ["command:review*"],
+      exclude: ["skill:*", "lint"],
+    });
+    expect(() => createComponentFilter("widget:*")).toThrow('Invalid component pattern "widget:*"');
+    expect(() => createComponentFilter(undefined, "skill:")).toThrow("Invalid component pattern");
+  });
+
+  test("applyComponentFilter should match types, globs and bare names", () => {
+    const components = [review, helper, lint];
+
+    expect(applyComponentFilter(components, { include: ["command:rev*"] })).toEqual([review]);
+    expect(applyComponentFilter(components, { exclude: ["skill:*"] })).toEqual([review, helper]);
+    expect(applyComponentFilter(components, { include: ["*:*"], exclude: ["helper"] })).toEqual([
+      review,
+      lint,
+    ]);
+    expect(applyComponentFilter(components, { include: ["command:review.md"] })).toEqual([review]);
+    expect(applyComponentFilter(components, { include: ["agent:help?r"] })).toEqual([helper]);
+  });
+});
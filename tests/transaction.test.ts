@@ -0,0 +1,101 @@
+import { afterAll, beforeEach, describe, expect, test } from "bun:test";
+import { mkdir, readdir, readFile, rm, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import {
+  applyTransaction,
+  commitTransaction,
+  createTransaction,
+  removeFile,
+  rollbackTransaction,
+  stageFile,
+} from "../src/transaction";
+
+describe("Transaction", () => {
+  const tmpDir = join(process.cwd(), "tests", "tmp-transaction");
+  const sourceDir = join(tmpDir, "source");
+  const targetDir = join(tmpDir, "target");
+
+  beforeEach(async () => {
+    await rm(tmpDir, { recursive: true, force: true });
+    await mkdir(join(sourceDir, "review"), { recursive: true });
+    await mkdir(join(targetDir, "review"), { recursive: true });
+    await writeFile(join(sourceDir, "hello.md"), "# Hello v2");
+    await writeFile(join(sourceDir, "review/SKILL.md"), "# Review v2");
+    await writeFile(join(targetDir, "hello.md"), "# Hello v1");
+    await writeFile(join(targetDir, "review/SKILL.md"), "# Review v1");
+    await writeFile(join(targetDir, "review/old.md"), "# Old");
+  });
+
+  afterAll(async () => {
+    await rm(tmpDir, { recursive: true, force: true });
+  });
+
+  test("staged files should not be visible until applied", async () => {
+    const transaction = createTransaction();
+    await stageFile(transaction, join(sourceDir, "hello.md"), join(targetDir, "hello.md"));
+
+    expect(await readFile(join(targetDir, "hello.md"), "utf-8")).toBe("# Hello v1");
+
+    await applyTransaction(transaction);
+    await commitTransaction(transaction);
+
+    expect(await readFile(join(targetDir, "hello.md"), "utf-8")).toBe("# Hello v2");
+    expect((await readdir(targetDir)).sort()).toEqual(["hello.md", "review"]);
+  });
+
+  test("applied directories should replace the previous directory entirely", async () => {
+    const transaction = createTransaction();
+    await stageFile(transaction, join(sourceDir, "review"), join(targetDir, "review"));
+    await applyTransaction(transaction);
+    await commitTransaction(transaction);
+
+    expect(await readdir(join(targetDir, "review"))).toEqual(["SKILL.md"]);
+    expect(await readFile(join(targetDir, "review/SKILL.md"), "utf-8")).toBe("# Review v2");
+  });
+
+  test("rollback should restore previous files and remove new ones", async () => {
+    const transaction = createTransaction();
+    await stageFile(transaction, join(sourceDir, "hello.md"), join(targetDir, "hello.md"));
+    await stageFile(transaction, join(sourceDir, "review"), join(targetDir, "review"));
+    await stageFile(transaction, join(sourceDir, "hello.md"), join(targetDir, "new.md"));
+    await applyTransaction(transaction);
+
+    await rollbackTransaction(transaction);
+
+    expect((await readdir(targetDir)).sort()).toEqual(["hello.md", "review"]);
+    expect(await readFile(join(targetDir, "hello.md"), "utf-8")).toBe("# Hello v1");
+    expect((await readdir(join(targetDir, "review"))).sort()).toEqual(["SKILL.md", "old.md"]);
+  });
+
+  test("rollback should clean up a partially staged transaction", async () => {
+    const transaction = createTransaction();
+    await stageFile(transaction, join(sourceDir, "hello.md"), join(targetDir, "hello.md"));
+
+    await expect(
+      stageFile(transaction, join(sourceDir, "missing.md"), join(targetDir, "missing.md")),
+    ).rejects.toThrow();
+
+    await rollbackTransaction(transaction);
+
+    expect((await readdir(targetDir)).sort()).toEqual(["hello.md", "review"]);
+    expect(await readFile(join(targetDir, "hello.md"), "utf-8")).toBe("# Hello v1");
+  });
+
+  test("removed files should be deleted on commit and restored on rollback", async () => {
+    const rolledBack = createTransaction();
+    removeFile(rolledBack, join(targetDir, "review"));
+    await applyTransaction(rolledBack);
+
+    expect((await readdir(targetDir)).filter((name) => name === "review")).toEqual([]);
+
+    await rollbackTransaction(rolledBack);
+    expect((await readdir(join(targetDir, "review"))).sort()).toEqual(["SKILL.md", "old.md"]);
+
+    const committed = createTransaction();
+    removeFile(committed, join(targetDir, "review"));
+    await applyTransaction(committed);
+    await commitTransaction(committed);
+
+    expect(await readdir(targetDir)).toEqual(["hello.md"]);
+  });
+});